@@ -0,0 +1,88 @@
+import fs from 'fs';
+import readline from 'readline';
+import config from './config';
+import { logger } from './utils/logger';
+import { DatabaseService } from './services/database';
+import { ParsedSignature, parseTextSignature, signaturesFromAbi } from './utils/signatures';
+
+const BATCH_SIZE = 5000;
+const VERIFIED_BATCH_SIZE = 500;
+
+const USAGE = 'Usage: npm run signatures:import -- <file> | --verified';
+
+// Imports text signatures from a file, one per line
+async function importFile(database: DatabaseService, path: string): Promise<void> {
+    const lines = readline.createInterface({ input: fs.createReadStream(path), crlfDelay: Infinity });
+    let batch: ParsedSignature[] = [];
+    let lineNumber = 0;
+    let imported = 0;
+    let invalid = 0;
+
+    for await (const line of lines) {
+        lineNumber++;
+        try {
+            const signature = parseTextSignature(line);
+            if (signature) batch.push(signature);
+        } catch (error) {
+            invalid++;
+            logger.warn('Skipping invalid signature', { line: lineNumber, text: line.trim() }, error);
+        }
+
+        if (batch.length >= BATCH_SIZE) {
+            imported += await database.insertSignatures(batch, 'import');
+            batch = [];
+        }
+    }
+    imported += await database.insertSignatures(batch, 'import');
+
+    logger.info(`Imported ${imported} new signatures from ${lineNumber} lines`, { invalid });
+}
+
+// Seeds the store from contracts verified before it existed
+async function importVerified(database: DatabaseService): Promise<void> {
+    let after = '';
+    let contracts = 0;
+    let imported = 0;
+
+    for (;;) {
+        const abis = await database.getVerifiedAbis(after, VERIFIED_BATCH_SIZE);
+        if (abis.length === 0) break;
+
+        const signatures = abis.flatMap(({ address, abi }) => {
+            try {
+                return signaturesFromAbi(abi);
+            } catch (error) {
+                logger.warn('Skipping unreadable ABI', { address }, error);
+                return [];
+            }
+        });
+        imported += await database.insertSignatures(signatures, 'verified');
+        contracts += abis.length;
+        after = abis[abis.length - 1].address;
+    }
+
+    logger.info(`Imported ${imported} new signatures from ${contracts} verified contracts`);
+}
+
+async function importSignatures() {
+    const [source] = process.argv.slice(2);
+    if (!source) {
+        throw new Error(USAGE);
+    }
+
+    const database = new DatabaseService(config.database.connection_string);
+    try {
+        if (source === '--verified') {
+            await importVerified(database);
+        } else {
+            await importFile(database, source);
+        }
+    } finally {
+        await database.close();
+    }
+}
+
+importSignatures().catch(error => {
+    logger.error('Importing signatures failed:', error);
+    process.exit(1);
+});
@@ -1,38 +1,64 @@
-import config, { getDatabaseUrl } from './config';
+import config from './config';
 import { logger } from './utils/logger';
 import { BlockchainService } from './services/blockchain';
+import { describeEndpoint, RpcClient } from './services/rpc-client';
 import { DatabaseService } from './services/database';
 import { IndexerService } from './services/indexer';
 import { ApiService } from './services/api';
+import { MempoolService } from './services/mempool';
 
 async function main() {
     try {
         logger.info('Starting Studio Blockchain Indexer');
 
         // Initialize services
-        const blockchain = new BlockchainService(config.rpc.url);
-        const database = new DatabaseService(getDatabaseUrl());
+        const blockchain = new BlockchainService(new RpcClient(config.rpc));
+        const database = new DatabaseService(config.database.connection_string);
         const indexer = new IndexerService(blockchain, database);
-        const api = new ApiService(database, indexer, config.api.port);
+        const api = new ApiService(database, indexer, blockchain, config.api.port);
+        const mempool = new MempoolService(blockchain, database);
+
+        // Bring the schema up to date before anything touches the tables
+        if (config.database.migrate_on_start) {
+            const applied = await database.migrate();
+            logger.info(applied.length > 0
+                ? `Applied migrations: ${applied.join(', ')}`
+                : 'Database schema is up to date');
+        }
 
         // Check blockchain connection
         const isConnected = await blockchain.isConnected();
         if (!isConnected) {
             throw new Error('Failed to connect to blockchain');
         }
-        logger.info('Connected to blockchain');
 
-        // Start services
-        await indexer.start();
-        logger.info('Indexer service started');
+        // Refuse to index a different chain into an existing database
+        const chainId = await blockchain.getChainId();
+        if (config.rpc.chain_id !== null && chainId !== config.rpc.chain_id) {
+            throw new Error(`RPC endpoint is on chain ${chainId} but CHAIN_ID is ${config.rpc.chain_id}`);
+        }
+        logger.info('Connected to blockchain', { chain_id: chainId });
 
+        // Serve /ready and /metrics while the indexer is still catching up
         api.start();
         logger.info('API service started');
 
+        if (config.features.mempool) {
+            mempool.start();
+        }
+
+        // The backfill runs until the index reaches the chain head, so it is not awaited
+        indexer.start().catch(error => {
+            logger.error('Failed to start indexer:', error);
+            process.exit(1);
+        });
+
         // Handle shutdown
         const shutdown = async () => {
             logger.info('Shutting down...');
+            mempool.stop();
             await indexer.stop();
+            api.stop();
             await database.close();
             process.exit(0);
         };
@@ -41,14 +67,11 @@ async function main() {
         process.on('SIGTERM', shutdown);
 
         // Log startup success
-        logger.info(`
-Studio Blockchain Indexer is running
-================================
-RPC URL: ${config.rpc.url}
-Chain ID: ${config.rpc.chainId}
-API Port: ${config.api.port}
-================================
-        `);
+        logger.info('Studio Blockchain Indexer is running', {
+            rpc_endpoint: describeEndpoint(config.rpc.url),
+            chain_id: chainId,
+            api_port: config.api.port
+        });
 
     } catch (error) {
         logger.error('Failed to start indexer:', error);
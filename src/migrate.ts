@@ -0,0 +1,24 @@
+import config from './config';
+import { logger } from './utils/logger';
+import { DatabaseService } from './services/database';
+
+async function migrate() {
+    const database = new DatabaseService(config.database.connection_string);
+
+    try {
+        const applied = await database.migrate();
+        const version = await database.getSchemaVersion();
+
+        if (applied.length > 0) {
+            logger.info(`Applied migrations: ${applied.join(', ')}`);
+        }
+        logger.info(`Database schema is at version ${version}`);
+    } finally {
+        await database.close();
+    }
+}
+
+migrate().catch(error => {
+    logger.error('Migration failed:', error);
+    process.exit(1);
+});
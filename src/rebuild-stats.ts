@@ -0,0 +1,24 @@
+import config from './config';
+import { logger } from './utils/logger';
+import { DatabaseService } from './services/database';
+
+const BATCH_SIZE = 10000;
+
+// Recomputes the daily statistics rollups from the indexed blocks. Stop the indexer first.
+async function rebuildStats() {
+    const database = new DatabaseService(config.database.connection_string);
+
+    try {
+        await database.rebuildDailyStats(BATCH_SIZE, (toBlock, lastBlock) => {
+            logger.info(`Rebuilt daily stats up to block ${toBlock} of ${lastBlock}`);
+        });
+        logger.info('Daily stats rebuilt');
+    } finally {
+        await database.close();
+    }
+}
+
+rebuildStats().catch(error => {
+    logger.error('Rebuilding daily stats failed:', error);
+    process.exit(1);
+});
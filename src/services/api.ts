@@ -1,46 +1,146 @@
+import crypto from 'crypto';
 import express from 'express';
 import cors from 'cors';
 import { ethers } from 'ethers';
-import { logger } from '../utils/logger';
-import { DatabaseService } from './database';
+import { logger, withLogContext } from '../utils/logger';
+import { DatabaseService, Transaction } from './database';
 import { IndexerService } from './indexer';
+import { BlockchainService } from './blockchain';
 import { setupContractRoutes } from './contract-routes';
+import { setupTokenRoutes } from './token-routes';
+import { setupEtherscanRoutes } from './etherscan-routes';
+import { setupSearchRoutes } from './search-routes';
+import { setupStatsRoutes } from './stats-routes';
+import { setupGasRoutes } from './gas-routes';
+import { setupSignatureRoutes } from './signature-routes';
+import { RealtimeService } from './realtime';
+import { DecoderService } from './decoder';
+import { formatLog } from '../utils/log-filter';
+import { CursorError, CursorList, parsePageRequest, toCursorPage } from '../utils/cursor';
+import { httpRequestSeconds, registry } from '../utils/metrics';
+import { methodName } from '../utils/signatures';
 import config from '../config';
 
-const axios = require('axios');
+const ADDRESS_TOKEN_HOLDINGS_LIMIT = 100;
+const ADDRESS_PENDING_TRANSACTIONS_LIMIT = 100;
+
+const BLOCKS: CursorList = { name: 'blocks', key: ['integer'] };
+const LATEST_TRANSACTIONS: CursorList = { name: 'transactions', key: ['integer', 'integer'] };
+const ADDRESS_TRANSACTIONS: CursorList = { name: 'address_transactions', key: ['integer', 'integer'] };
+const ADDRESS_INTERNAL_TRANSACTIONS: CursorList = { name: 'address_internal_transactions', key: ['integer', 'string', 'integers'] };
+const CONTRACTS: CursorList = { name: 'contracts', key: ['integer', 'string'] };
+const LOGS: CursorList = { name: 'logs', key: ['integer', 'integer'] };
+
+const REQUEST_ID_HEADER = 'X-Request-ID';
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Filter of `/logs` queries, shaped like the `eth_getLogs` filter object
+interface LogsQueryParams {
+    address?: string | string[];
+    topics?: (string | string[] | null)[];
+    fromBlock?: string | number;
+    toBlock?: string | number;
+    limit?: string | number;
+    cursor?: string;
+}
+
+// Checks the shape only; addresses, topics and block tags are validated by the handler
+function isLogsQueryParams(value: unknown): value is LogsQueryParams {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+    const params = value as Record<string, unknown>;
+    const isString = (item: unknown) => typeof item === 'string';
+    const isStrings = (item: unknown) => Array.isArray(item) && item.every(isString);
+    const isOptional = (item: unknown, check: (item: unknown) => boolean) => item === undefined || check(item);
+    const isNumberOrString = (item: unknown) => isString(item) || typeof item === 'number';
+
+    return isOptional(params.address, item => isString(item) || isStrings(item))
+        && isOptional(params.topics, item => Array.isArray(item) && item.every(topic => topic === null || isString(topic) || isStrings(topic)))
+        && isOptional(params.fromBlock, isNumberOrString)
+        && isOptional(params.toBlock, isNumberOrString)
+        && isOptional(params.limit, isNumberOrString)
+        && isOptional(params.cursor, isString);
+}
+
+function splitQuery(value: unknown): string[] | undefined {
+    if (typeof value !== 'string' || value === '') return undefined;
+    return value.split(',').map(part => part.trim());
+}
+
+// Accepts decimal or hex block numbers plus the 'earliest'/'latest' tags; null means invalid
+function parseBlockTag(value: unknown, latest: number): number | undefined | null {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value === 'number') return Number.isInteger(value) && value >= 0 ? value : null;
+    if (typeof value !== 'string') return null;
+    if (value === 'latest') return latest;
+    if (value === 'earliest') return 0;
+
+    const parsed = value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+    return isNaN(parsed) || parsed < 0 ? null : parsed;
+}
+
+// Labels requests by the route pattern that handled them so ids in paths don't create new series
+function routeLabel(req: express.Request): string {
+    if (!req.route) return 'unmatched';
+    const path = Array.isArray(req.route.path) ? req.route.path[0] : req.route.path;
+    return `${req.baseUrl}${typeof path === 'string' ? path : String(path)}`;
+}
 
 export class ApiService {
     private app: express.Application;
     private database: DatabaseService;
     private indexer: IndexerService;
+    private blockchain: BlockchainService;
     private port: number;
+    private realtime: RealtimeService;
+    private decoder: DecoderService;
 
-    constructor(database: DatabaseService, indexer: IndexerService, port: number) {
+    constructor(database: DatabaseService, indexer: IndexerService, blockchain: BlockchainService, port: number) {
         this.database = database;
         this.indexer = indexer;
+        this.blockchain = blockchain;
         this.port = port;
+        this.realtime = new RealtimeService(database, indexer);
+        this.decoder = new DecoderService(database);
         this.app = express();
         this.setupMiddleware();
         this.setupRoutes();
     }
 
     private setupMiddleware(): void {
+        // Tag every request with a correlation id, reusing the caller's when it sent a usable one
+        this.app.use((req, res, next) => {
+            const incoming = req.get(REQUEST_ID_HEADER);
+            const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+            res.setHeader(REQUEST_ID_HEADER, requestId);
+
+            const stopTimer = httpRequestSeconds.startTimer({ method: req.method });
+            res.on('finish', () => {
+                const route = routeLabel(req);
+                const seconds = stopTimer({ route, status: String(res.statusCode) });
+                logger.debug(`${req.method} ${req.originalUrl.split('?')[0]}`, {
+                    request_id: requestId,
+                    route,
+                    status: res.statusCode,
+                    duration_ms: Math.round(seconds * 1000)
+                });
+            });
+
+            withLogContext({ request_id: requestId }, next);
+        });
+
         this.app.use(cors({
-            origin: '*',
+            origin: config.api.cors_origins.includes('*') ? '*' : config.api.cors_origins,
             methods: ['GET', 'POST', 'OPTIONS'],
-            allowedHeaders: ['Content-Type', 'Accept', 'Authorization'],
+            allowedHeaders: ['Content-Type', 'Accept', 'Authorization', 'Last-Event-ID', REQUEST_ID_HEADER],
+            exposedHeaders: [REQUEST_ID_HEADER],
             credentials: false,
             maxAge: 86400,
             preflightContinue: false,
             optionsSuccessStatus: 204,
         }));
         
-        this.app.use(express.json({ limit: '50mb' }));
-        
-        this.app.use((req, res, next) => {
-            logger.info(`${req.method} ${req.path}`, { service: 'indexer', timestamp: new Date().toISOString() });
-            next();
-        });
+        this.app.use(express.json({ limit: config.api.body_limit }));
 
         this.app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
             logger.error('API Error:', err);
@@ -54,10 +154,36 @@ export class ApiService {
             res.json({
                 status: 'ok',
                 lastBlock: this.indexer.getLastProcessedBlock(),
+                isIndexing: this.indexer.isRunning(),
+                rpcEndpoints: this.blockchain.getEndpointStatus()
+            });
+        });
+
+        // Ready once the indexer runs and is close enough to the chain head to serve current data
+        this.app.get(['/ready', '/api/ready', '/v1/ready'], (req, res) => {
+            const lag = this.indexer.getLag();
+            const ready = this.indexer.isRunning() && lag <= config.indexer.ready_max_lag_blocks;
+            res.status(ready ? 200 : 503).json({
+                status: ready ? 'ready' : 'not ready',
+                lastBlock: this.indexer.getLastProcessedBlock(),
+                lagBlocks: lag,
+                maxLagBlocks: config.indexer.ready_max_lag_blocks,
                 isIndexing: this.indexer.isRunning()
             });
         });
 
+        // Prometheus metrics
+        this.app.get('/metrics', async (req, res) => {
+            try {
+                res.set('Content-Type', registry.contentType);
+                res.send(await registry.metrics());
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Error collecting metrics:', error);
+                res.status(500).json({ error: 'Failed to collect metrics', message: errorMessage });
+            }
+        });
+
         // Get last finalized block
         this.app.get(['/last-block', '/api/last-block'], async (req, res) => {
             try {
@@ -89,33 +215,27 @@ export class ApiService {
         // Get latest blocks with pagination
         this.app.get(['/blocks', '/api/blocks', '/v1/blocks'], async (req, res) => {
             try {
-                const limit = parseInt(req.query.limit as string) || 10;
-                const offset = parseInt(req.query.offset as string) || 0;
-                
-                const latestBlock = await this.database.getLatestBlock();
-                if (!latestBlock) {
-                    res.json({ results: [], total_count: 0 });
-                    return;
-                }
+                const request = parsePageRequest(req.query, BLOCKS, config.api.max_page_size);
+                const [page, total] = await Promise.all([
+                    this.database.getBlocks(request),
+                    this.database.countBlocks()
+                ]);
 
-                const blocks = [];
-                for (let i = 0; i < limit && (latestBlock.number - i - offset) >= 0; i++) {
-                    const blockNumber = latestBlock.number - i - offset;
-                    const block = await this.database.getBlock(blockNumber);
-                    if (block) {
-                        const transactions = await this.database.getTransactionsByBlock(blockNumber);
-                        blocks.push({
-                            ...block,
-                            transactions
-                        });
-                    }
-                }
-                
-                res.json({
-                    results: blocks,
-                    total_count: latestBlock.number + 1
-                });
+                // Load the transactions of the whole page at once
+                const transactions = await this.withMethods(
+                    await this.database.getTransactionsByBlocks(page.results.map(block => block.number))
+                );
+                const blocks = page.results.map(block => ({
+                    ...block,
+                    transactions: transactions.filter(tx => tx.block_number === block.number)
+                }));
+
+                res.json(toCursorPage({ ...page, results: blocks }, request, block => [block.number], total));
             } catch (error: unknown) {
+                if (error instanceof CursorError) {
+                    res.status(400).json({ error: error.message });
+                    return;
+                }
                 const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                 logger.error('Error getting blocks:', error);
                 res.status(500).json({ error: 'Failed to get blocks', message: errorMessage });
@@ -125,14 +245,16 @@ export class ApiService {
         // Get block by number with transactions
         this.app.get(['/blocks/:number', '/api/blocks/:number'], async (req, res) => {
             try {
-                const blockNumber = parseInt(req.params.number);
-                const block = await this.database.getBlock(blockNumber);
+                // Blocks can be looked up by number or by hash
+                const block = ethers.utils.isHexString(req.params.number, 32)
+                    ? await this.database.getBlockByHash(req.params.number)
+                    : await this.database.getBlock(parseInt(req.params.number));
                 if (!block) {
                     res.status(404).json({ error: 'Block not found' });
                     return;
                 }
                 
-                const transactions = await this.database.getTransactionsByBlock(blockNumber);
+                const transactions = await this.withMethods(await this.database.getTransactionsByBlock(block.number));
                 res.json({
                     ...block,
                     transactions
@@ -147,25 +269,19 @@ export class ApiService {
         // Get latest transactions with pagination
         this.app.get(['/transactions/latest', '/api/transactions/latest', '/v1/transactions'], async (req, res) => {
             try {
-                const limit = parseInt(req.query.limit as string) || 10;
-                const offset = parseInt(req.query.offset as string) || 0;
-                const includePagination = req.query.includePagination === 'true';
-                const key = parseInt(req.query.key as string) || 0;
-
-                const transactions = await this.database.getLatestTransactions(limit, offset);
-                const totalCount = await this.database.getTotalTransactions();
+                const request = parsePageRequest(req.query, LATEST_TRANSACTIONS, config.api.max_page_size);
+                const [page, total] = await Promise.all([
+                    this.database.getLatestTransactions(request),
+                    this.database.countTransactions()
+                ]);
+                const transactions = await this.withMethods(page.results);
 
-                if (includePagination) {
-                    res.json({
-                        results: transactions,
-                        total_count: totalCount,
-                        next: key > 0 ? key - limit : totalCount - limit,
-                        previous: key < totalCount ? key + limit : null
-                    });
-                } else {
-                    res.json(transactions);
-                }
+                res.json(toCursorPage({ ...page, results: transactions }, request, tx => [tx.block_number, tx.transaction_index], total));
             } catch (error: unknown) {
+                if (error instanceof CursorError) {
+                    res.status(400).json({ error: error.message });
+                    return;
+                }
                 const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                 logger.error('Error getting latest transactions:', error);
                 res.status(500).json({ error: 'Failed to get latest transactions', message: errorMessage });
@@ -176,36 +292,48 @@ export class ApiService {
         this.app.get(['/transactions/:hash', '/api/transactions/:hash', '/v1/transactions/:hash'], async (req, res) => {
             try {
                 const { hash } = req.params;
-                logger.info(`Getting transaction details for hash: ${hash}`);
 
                 const transaction = await this.database.getTransaction(hash);
                 if (!transaction) {
-                    res.status(404).json({ error: 'Transaction not found' });
+                    // Not mined yet, or seen in the mempool and never mined
+                    const pending = await this.database.getPendingTransaction(hash);
+                    if (!pending) {
+                        res.status(404).json({ error: 'Transaction not found' });
+                        return;
+                    }
+
+                    res.json({
+                        ...pending,
+                        block_number: null,
+                        decoded_input: await this.decoder.decodeTransaction(pending),
+                        receipt: null,
+                        internal_transactions: []
+                    });
                     return;
                 }
 
-                const provider = new ethers.providers.JsonRpcProvider(config.rpc.url);
-                const receipt = await provider.getTransactionReceipt(hash);
+                const [block, logs, internalTransactions, decodedInput] = await Promise.all([
+                    this.database.getBlock(transaction.block_number),
+                    this.database.getLogsByTransaction(hash),
+                    this.database.getInternalTransactionsByTransaction(hash),
+                    this.decoder.decodeTransaction(transaction)
+                ]);
+                const decodedLogs = await this.decoder.decodeLogs(logs);
 
                 const response = {
                     ...transaction,
-                    receipt: receipt ? {
-                        status: receipt.status,
-                        gas_used: receipt.gasUsed.toString(),
-                        cumulative_gas_used: receipt.cumulativeGasUsed.toString(),
-                        logs: receipt.logs.map(log => ({
-                            address: log.address,
-                            topics: log.topics,
-                            data: log.data,
-                            log_index: log.logIndex,
-                            block_number: log.blockNumber,
-                            transaction_index: log.transactionIndex
-                        })),
-                        contract_address: receipt.contractAddress,
-                        block_hash: receipt.blockHash,
-                        block_number: receipt.blockNumber,
-                        transaction_index: receipt.transactionIndex
-                    } : null
+                    decoded_input: decodedInput,
+                    receipt: {
+                        status: transaction.status ? 1 : 0,
+                        gas_used: transaction.gas_used,
+                        cumulative_gas_used: transaction.cumulative_gas_used || null,
+                        logs: logs.map((log, i) => ({ ...formatLog(log), decoded: decodedLogs[i] })),
+                        contract_address: transaction.contract_address || null,
+                        block_hash: block?.hash || null,
+                        block_number: transaction.block_number,
+                        transaction_index: transaction.transaction_index
+                    },
+                    internal_transactions: internalTransactions
                 };
 
                 res.json(response);
@@ -216,45 +344,202 @@ export class ApiService {
             }
         });
 
+        // Get an address overview: balance, activity counters and token holdings
+        this.app.get(['/address/:address', '/api/address/:address', '/v1/address/:address'], async (req, res) => {
+            try {
+                const { address } = req.params;
+
+                if (!ethers.utils.isAddress(address)) {
+                    res.status(400).json({ error: 'Invalid address' });
+                    return;
+                }
+
+                const [balance, code, stats, deployment, tokenHoldings] = await Promise.all([
+                    this.blockchain.getBalance(address),
+                    this.blockchain.getCode(address),
+                    this.database.getAddressStats(address),
+                    this.database.getDeployedContract(address),
+                    this.database.getTokenHoldings(address, ADDRESS_TOKEN_HOLDINGS_LIMIT)
+                ]);
+
+                res.json({
+                    address: ethers.utils.getAddress(address),
+                    balance,
+                    is_contract: code !== '0x',
+                    transaction_count: stats ? parseInt(stats.transaction_count) : 0,
+                    sent_count: stats ? parseInt(stats.sent_count) : 0,
+                    received_count: stats ? parseInt(stats.received_count) : 0,
+                    gas_used: stats?.gas_used || '0',
+                    fees_paid: stats?.fees_paid || '0',
+                    first_seen_block: stats?.first_seen_block ?? null,
+                    first_seen_at: stats?.first_seen_at || null,
+                    last_seen_block: stats?.last_seen_block ?? null,
+                    last_seen_at: stats?.last_seen_at || null,
+                    creator: deployment?.creator_address || null,
+                    creation_transaction: deployment?.creation_transaction_hash || null,
+                    token_holdings: tokenHoldings
+                });
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Error getting address overview:', error);
+                res.status(500).json({ error: 'Failed to get address', message: errorMessage });
+            }
+        });
+
         // Get transactions by address with pagination
         this.app.get(['/address/:address/transactions', '/api/address/:address/transactions', '/v1/address/:address/transactions'], async (req, res) => {
             try {
-                const limit = parseInt(req.query.limit as string) || 10;
-                const offset = parseInt(req.query.offset as string) || 0;
-                const includePagination = req.query.includePagination === 'true';
+                const request = parsePageRequest(req.query, ADDRESS_TRANSACTIONS, config.api.max_page_size);
 
-                const transactions = await this.database.getTransactionsByAddress(
-                    req.params.address,
-                    limit,
-                    offset
-                );
-
-                if (includePagination) {
-                    const totalCount = await this.database.getTotalTransactions();
-                    res.json({
-                        results: transactions,
-                        total_count: totalCount
-                    });
-                } else {
-                    res.json(transactions);
+                if (!ethers.utils.isAddress(req.params.address)) {
+                    res.status(400).json({ error: 'Invalid address' });
+                    return;
                 }
+
+                // Transactions are stored with checksummed addresses
+                const address = ethers.utils.getAddress(req.params.address);
+                const [page, stats, pending] = await Promise.all([
+                    this.database.getTransactionsByAddress(address, request),
+                    this.database.getAddressStats(req.params.address),
+                    // Pending transactions have no place in the block order, so they come with the first page only
+                    request.cursor
+                        ? Promise.resolve([])
+                        : this.database.getPendingTransactionsByAddress(address, ADDRESS_PENDING_TRANSACTIONS_LIMIT)
+                ]);
+
+                const [transactions, pendingTransactions] = await Promise.all([
+                    this.withMethods(page.results),
+                    this.withMethods(pending)
+                ]);
+
+                res.json({
+                    ...toCursorPage({ ...page, results: transactions }, request, tx => [tx.block_number, tx.transaction_index], {
+                        count: stats ? parseInt(stats.transaction_count) : 0,
+                        is_estimate: false
+                    }),
+                    pending: pendingTransactions
+                });
             } catch (error: unknown) {
+                if (error instanceof CursorError) {
+                    res.status(400).json({ error: error.message });
+                    return;
+                }
                 const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                 logger.error('Error getting address transactions:', error);
                 res.status(500).json({ error: 'Failed to get transactions', message: errorMessage });
             }
         });
 
+        // Get internal transactions (contract calls and value transfers) touching an address
+        this.app.get(['/address/:address/internal-transactions', '/api/address/:address/internal-transactions', '/v1/address/:address/internal-transactions'], async (req, res) => {
+            try {
+                const { address } = req.params;
+                const request = parsePageRequest(req.query, ADDRESS_INTERNAL_TRANSACTIONS, config.api.max_page_size);
+
+                if (!ethers.utils.isAddress(address)) {
+                    res.status(400).json({ error: 'Invalid address' });
+                    return;
+                }
+
+                const [page, total] = await Promise.all([
+                    this.database.getInternalTransactionsByAddress(address, request),
+                    this.database.countInternalTransactionsByAddress(address)
+                ]);
+                res.json(toCursorPage(page, request, internal => [
+                    internal.block_number,
+                    internal.transaction_hash,
+                    internal.trace_address
+                ], total));
+            } catch (error: unknown) {
+                if (error instanceof CursorError) {
+                    res.status(400).json({ error: error.message });
+                    return;
+                }
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Error getting address internal transactions:', error);
+                res.status(500).json({ error: 'Failed to get internal transactions', message: errorMessage });
+            }
+        });
+
+        // Get token holdings of an address
+        this.app.get(['/address/:address/tokens', '/api/address/:address/tokens', '/v1/address/:address/tokens'], async (req, res) => {
+            try {
+                const { address } = req.params;
+                const limit = Math.min(parseInt(req.query.limit as string) || 10, config.api.max_page_size);
+                const offset = parseInt(req.query.offset as string) || 0;
+
+                if (!ethers.utils.isAddress(address)) {
+                    res.status(400).json({ error: 'Invalid address' });
+                    return;
+                }
+
+                const holdings = await this.database.getTokenHoldings(address, limit, offset);
+                res.json(holdings);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Error getting address tokens:', error);
+                res.status(500).json({ error: 'Failed to get address tokens', message: errorMessage });
+            }
+        });
+
+        // Get NFTs held by an address across all collections
+        this.app.get(['/address/:address/nfts', '/api/address/:address/nfts', '/v1/address/:address/nfts'], async (req, res) => {
+            try {
+                const { address } = req.params;
+                const limit = Math.min(parseInt(req.query.limit as string) || 10, config.api.max_page_size);
+                const offset = parseInt(req.query.offset as string) || 0;
+
+                if (!ethers.utils.isAddress(address)) {
+                    res.status(400).json({ error: 'Invalid address' });
+                    return;
+                }
+
+                const items = await this.database.getNftsByOwner(address, undefined, limit, offset);
+                res.json(items);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Error getting address NFTs:', error);
+                res.status(500).json({ error: 'Failed to get address NFTs', message: errorMessage });
+            }
+        });
+
+        // Query stored event logs, eth_getLogs style
+        this.app.get(['/logs', '/api/logs', '/v1/logs'], async (req, res) => {
+            await this.handleLogsQuery({
+                address: splitQuery(req.query.address),
+                topics: [0, 1, 2, 3].map(i => splitQuery(req.query[`topic${i}`]) || null),
+                fromBlock: req.query.fromBlock,
+                toBlock: req.query.toBlock,
+                limit: req.query.limit,
+                cursor: req.query.cursor
+            }, res);
+        });
+
+        this.app.post(['/logs', '/api/logs', '/v1/logs'], async (req, res) => {
+            await this.handleLogsQuery(req.body || {}, res);
+        });
+
+        // Get detected chain reorganizations
+        this.app.get(['/reorgs', '/api/reorgs', '/v1/reorgs'], async (req, res) => {
+            try {
+                const limit = Math.min(parseInt(req.query.limit as string) || 10, config.api.max_page_size);
+                const offset = parseInt(req.query.offset as string) || 0;
+
+                const reorgs = await this.database.getReorgs(limit, offset);
+                res.json(reorgs);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Error getting chain reorgs:', error);
+                res.status(500).json({ error: 'Failed to get chain reorgs', message: errorMessage });
+            }
+        });
+
         // RPC proxy endpoint
         this.app.post(['/proxy/rpc', '/api/proxy/rpc'], async (req, res) => {
             try {
-                const response = await axios.post(config.rpc.url, req.body, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                });
+                const response = await this.blockchain.forwardRequest(req.body);
                 res.header('Access-Control-Allow-Origin', '*');
-                res.json(response.data);
+                res.json(response);
             } catch (error: unknown) {
                 const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                 logger.error('RPC proxy error:', error);
@@ -262,13 +547,130 @@ export class ApiService {
             }
         });
 
+        // List deployed contracts, optionally filtered by verification status and interface
+        this.app.get(['/v2/contracts', '/api/contracts', '/v1/contracts'], async (req, res) => {
+            try {
+                const request = parsePageRequest(req.query, CONTRACTS, config.api.max_page_size);
+                const verified = req.query.verified === undefined
+                    ? undefined
+                    : req.query.verified === 'true';
+                const interfaceType = req.query.interface as string | undefined;
+
+                const { page, total } = await this.database.getContracts({
+                    verified,
+                    interface_type: interfaceType?.toUpperCase()
+                }, request);
+
+                res.json(toCursorPage(page, request, contract => [contract.block_number, contract.address], total));
+            } catch (error: unknown) {
+                if (error instanceof CursorError) {
+                    res.status(400).json({ error: error.message });
+                    return;
+                }
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Error getting contracts:', error);
+                res.status(500).json({ error: 'Failed to get contracts', message: errorMessage });
+            }
+        });
+
+        // Server-Sent Events stream of committed blocks; WebSocket clients connect to /ws
+        this.app.get('/stream', (req, res) => this.realtime.handleSse(req, res));
+
         // Mount contract routes
-        this.app.use('/v2/contract', setupContractRoutes(this.database));
+        this.app.use('/v2/contract', setupContractRoutes(this.database, this.blockchain));
+
+        // Mount token routes
+        this.app.use(['/tokens', '/api/tokens', '/v1/tokens'], setupTokenRoutes(this.database));
+
+        // Mount search routes
+        this.app.use(['/search', '/api/search', '/v1/search'], setupSearchRoutes(this.database));
+
+        // Mount statistics routes
+        this.app.use(['/stats', '/api/stats', '/v1/stats'], setupStatsRoutes(this.database));
+
+        // Mount gas tracker routes
+        this.app.use(['/gas', '/api/gas', '/v1/gas'], setupGasRoutes(this.database));
+
+        // Mount signature lookups
+        this.app.use(['/signatures', '/api/signatures', '/v1/signatures'], setupSignatureRoutes(this.database));
+
+        // Mount the Etherscan-compatible API
+        this.app.use('/api', setupEtherscanRoutes(this.database, this.blockchain, this.decoder));
+    }
+
+    // Adds the best-guess method name of each transaction's input, null when the selector is unknown
+    private async withMethods<T extends Pick<Transaction, 'to_address' | 'input'>>(transactions: T[]): Promise<(T & { method: string | null })[]> {
+        const signatures = await this.decoder.guessMethods(transactions);
+        return transactions.map((tx, i) => ({ ...tx, method: signatures[i] ? methodName(signatures[i]!) : null }));
+    }
+
+    private async handleLogsQuery(params: unknown, res: express.Response): Promise<void> {
+        try {
+            if (!isLogsQueryParams(params)) {
+                res.status(400).json({ error: 'Invalid logs query' });
+                return;
+            }
+
+            const addresses = typeof params.address === 'string'
+                ? [params.address]
+                : params.address;
+            if (addresses && !addresses.every(address => ethers.utils.isAddress(address))) {
+                res.status(400).json({ error: 'Invalid address filter' });
+                return;
+            }
+
+            const topics = (params.topics || []).map(topic => typeof topic === 'string' ? [topic] : topic);
+            if (topics.length > 4 || !topics.every(topic => !topic || topic.every(value => ethers.utils.isHexString(value, 32)))) {
+                res.status(400).json({ error: 'Invalid topics filter' });
+                return;
+            }
+
+            const latestBlock = await this.database.getLatestBlock();
+            const fromBlock = parseBlockTag(params.fromBlock, latestBlock?.number ?? 0);
+            const toBlock = parseBlockTag(params.toBlock, latestBlock?.number ?? 0);
+            if (fromBlock === null || toBlock === null || (fromBlock !== undefined && toBlock !== undefined && fromBlock > toBlock)) {
+                res.status(400).json({ error: 'Invalid block range' });
+                return;
+            }
+
+            const request = parsePageRequest({ limit: params.limit, cursor: params.cursor }, LOGS, config.api.max_logs, 100);
+            const filter = {
+                addresses,
+                topics,
+                from_block: fromBlock,
+                to_block: toBlock
+            };
+
+            const [page, total] = await Promise.all([
+                this.database.getLogPage(filter, request),
+                this.database.countLogs(filter)
+            ]);
+            const decoded = await this.decoder.decodeLogs(page.results);
+            res.json(toCursorPage(
+                { ...page, results: page.results.map((log, i) => ({ ...formatLog(log), decoded: decoded[i] })) },
+                request,
+                log => [log.block_number, log.log_index],
+                total
+            ));
+        } catch (error: unknown) {
+            if (error instanceof CursorError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting logs:', error);
+            res.status(500).json({ error: 'Failed to get logs', message: errorMessage });
+        }
     }
 
     start(): void {
-        this.app.listen(this.port, () => {
+        const server = this.app.listen(this.port, () => {
             logger.info(`API server listening on port ${this.port}`);
         });
+        this.realtime.attach(server);
+    }
+
+    stop(): void {
+        this.realtime.close();
     }
 }
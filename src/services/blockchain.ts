@@ -1,16 +1,111 @@
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
+import { InternalTransaction } from './database';
+import { isMethodNotSupported, RpcClient, RpcEndpointStatus } from './rpc-client';
+import { CallFrame, ParityTrace, parseCallTrace, parseParityTraces } from '../utils/trace-parser';
+import config from '../config';
 
-export type BlockWithTransactions = ethers.providers.Block & {
+export type BlockWithTransactions = Omit<ethers.providers.Block, 'transactions'> & {
     transactions: ethers.providers.TransactionResponse[];
 };
 
+export interface TokenMetadata {
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+    total_supply: string | null;
+}
+
+const TOKEN_METADATA_ABI = [
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function totalSupply() view returns (uint256)'
+];
+
+const NFT_METADATA_ABI = [
+    'function tokenURI(uint256 tokenId) view returns (string)',
+    'function uri(uint256 id) view returns (string)'
+];
+
+// Announced transaction hashes are fetched together once this long has passed
+const PENDING_FETCH_DELAY_MS = 500;
+
+function toBlockTag(blockNumber: number): string {
+    return ethers.utils.hexValue(blockNumber);
+}
+
 export class BlockchainService {
+    private rpc: RpcClient;
     private provider: ethers.providers.JsonRpcProvider;
-    private newBlockCallback?: (blockNumber: number) => void;
+    private supportsBlockReceipts?: boolean;
+    private traceMethod?: 'debug' | 'parity' | 'none';
+    private stopHeadSubscription?: () => void;
+    private stopPendingSubscription?: () => void;
 
-    constructor(rpcUrl: string) {
-        this.provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    constructor(rpc: RpcClient) {
+        this.rpc = rpc;
+        this.provider = rpc.provider;
+    }
+
+    /**
+     * Fetches several blocks with their transactions in batched requests.
+     */
+    async getBlocksWithTransactions(blockNumbers: number[]): Promise<BlockWithTransactions[]> {
+        const rawBlocks = await this.rpc.batch(blockNumbers.map(blockNumber => ({
+            method: 'eth_getBlockByNumber',
+            params: [toBlockTag(blockNumber), true]
+        })));
+
+        return rawBlocks.map((raw, i) => {
+            if (!raw) {
+                throw new Error(`Block ${blockNumbers[i]} not found`);
+            }
+            return this.provider.formatter.blockWithTransactions(raw) as unknown as BlockWithTransactions;
+        });
+    }
+
+    /**
+     * Fetches all receipts of the given blocks, keyed by transaction hash.
+     * Uses `eth_getBlockReceipts` when the node supports it and falls back to
+     * batched `eth_getTransactionReceipt` calls otherwise.
+     */
+    async getBlockReceipts(blocks: BlockWithTransactions[]): Promise<Map<string, ethers.providers.TransactionReceipt>> {
+        const receipts = new Map<string, ethers.providers.TransactionReceipt>();
+        const blocksWithTxs = blocks.filter(block => block.transactions.length > 0);
+        if (blocksWithTxs.length === 0) return receipts;
+
+        let rawReceipts: any[] | null = null;
+        if (this.supportsBlockReceipts !== false) {
+            try {
+                const perBlock = await this.rpc.batch<any[]>(blocksWithTxs.map(block => ({
+                    method: 'eth_getBlockReceipts',
+                    params: [toBlockTag(block.number)]
+                })));
+                rawReceipts = perBlock.flat();
+                this.supportsBlockReceipts = true;
+            } catch (error) {
+                if (!isMethodNotSupported(error)) throw error;
+                logger.info('eth_getBlockReceipts is not supported, falling back to per-transaction receipts');
+                this.supportsBlockReceipts = false;
+            }
+        }
+
+        if (!rawReceipts) {
+            rawReceipts = await this.rpc.batch(blocksWithTxs.flatMap(block =>
+                block.transactions.map(tx => ({
+                    method: 'eth_getTransactionReceipt',
+                    params: [tx.hash]
+                }))
+            ));
+        }
+
+        for (const raw of rawReceipts) {
+            if (!raw) continue;
+            const receipt = this.provider.formatter.receipt(raw);
+            receipts.set(receipt.transactionHash.toLowerCase(), receipt);
+        }
+        return receipts;
     }
 
     async isConnected(): Promise<boolean> {
@@ -23,29 +118,252 @@ export class BlockchainService {
         }
     }
 
+    async getChainId(): Promise<number> {
+        return (await this.provider.getNetwork()).chainId;
+    }
+
     async getLatestBlockNumber(): Promise<number> {
         return await this.provider.getBlockNumber();
     }
 
-    async getBlockWithTransactions(blockNumber: number): Promise<BlockWithTransactions> {
-        const block = await this.provider.getBlockWithTransactions(blockNumber);
-        return block as BlockWithTransactions;
+    /**
+     * Reads the runtime code of several accounts at the given blocks in one batch.
+     */
+    async getCodes(requests: { address: string; blockNumber: number }[]): Promise<string[]> {
+        return await this.rpc.batch<string>(requests.map(request => ({
+            method: 'eth_getCode',
+            params: [request.address, toBlockTag(request.blockNumber)]
+        })));
+    }
+
+    /**
+     * Reads several storage slots of one account in one batch. `blockTag` is a
+     * block number or a tag such as 'latest'.
+     */
+    async getStorageSlots(address: string, slots: string[], blockTag: number | string = 'latest'): Promise<string[]> {
+        const tag = typeof blockTag === 'number' ? toBlockTag(blockTag) : blockTag;
+        return await this.rpc.batch<string>(slots.map(slot => ({
+            method: 'eth_getStorageAt',
+            params: [address, slot, tag]
+        })));
+    }
+
+    /**
+     * Runs `eth_call` against an account and returns the raw result. Throws
+     * when the call reverts.
+     */
+    async call(to: string, data: string, blockTag: number | string = 'latest'): Promise<string> {
+        const tag = typeof blockTag === 'number' ? toBlockTag(blockTag) : blockTag;
+        return await this.rpc.send<string>('eth_call', [{ to, data }, tag]);
+    }
+
+    /**
+     * Returns the internal transactions of each block, in block order. Uses
+     * `debug_traceBlockByNumber` with the callTracer or `trace_block`, as
+     * configured; in `auto` mode the first one the node answers is kept. When
+     * tracing is disabled or unavailable every block gets an empty list.
+     */
+    async traceBlocks(blocks: BlockWithTransactions[]): Promise<InternalTransaction[][]> {
+        if (!config.features.traces || this.traceMethod === 'none') {
+            return blocks.map(() => []);
+        }
+
+        const candidates: ('debug' | 'parity')[] = this.traceMethod
+            ? [this.traceMethod]
+            : config.indexer.trace_method === 'auto' ? ['debug', 'parity'] : [config.indexer.trace_method];
+
+        for (const method of candidates) {
+            try {
+                const traces = method === 'debug'
+                    ? await this.debugTraceBlocks(blocks)
+                    : await this.parityTraceBlocks(blocks);
+                this.traceMethod = method;
+                return traces;
+            } catch (error) {
+                if (!isMethodNotSupported(error)) throw error;
+                logger.warn(`${method === 'debug' ? 'debug_traceBlockByNumber' : 'trace_block'} is not available on the node`);
+            }
+        }
+
+        logger.warn('Node does not expose a tracing API, internal transactions will not be indexed');
+        this.traceMethod = 'none';
+        return blocks.map(() => []);
+    }
+
+    private async debugTraceBlocks(blocks: BlockWithTransactions[]): Promise<InternalTransaction[][]> {
+        const traced = blocks.filter(block => block.transactions.length > 0);
+        const results = await this.rpc.batch<{ txHash?: string; result?: CallFrame; error?: string }[]>(
+            traced.map(block => ({
+                method: 'debug_traceBlockByNumber',
+                params: [toBlockTag(block.number), { tracer: 'callTracer' }]
+            }))
+        );
+
+        const byBlock = new Map<number, InternalTransaction[]>();
+        traced.forEach((block, i) => {
+            const timestamp = new Date(block.timestamp * 1000);
+            // Older geth versions omit txHash, but traces always follow transaction order
+            byBlock.set(block.number, results[i].flatMap((trace, txIndex) => {
+                if (!trace.result) {
+                    throw new Error(`Failed to trace transaction ${txIndex} of block ${block.number}: ${trace.error}`);
+                }
+                const hash = trace.txHash || block.transactions[txIndex].hash;
+                return parseCallTrace(trace.result, hash, block.number, timestamp);
+            }));
+        });
+
+        return blocks.map(block => byBlock.get(block.number) || []);
+    }
+
+    private async parityTraceBlocks(blocks: BlockWithTransactions[]): Promise<InternalTransaction[][]> {
+        const traced = blocks.filter(block => block.transactions.length > 0);
+        const results = await this.rpc.batch<ParityTrace[]>(traced.map(block => ({
+            method: 'trace_block',
+            params: [toBlockTag(block.number)]
+        })));
+
+        const byBlock = new Map<number, InternalTransaction[]>();
+        traced.forEach((block, i) => {
+            byBlock.set(block.number, parseParityTraces(results[i], block.number, new Date(block.timestamp * 1000)));
+        });
+
+        return blocks.map(block => byBlock.get(block.number) || []);
     }
 
-    async getTransactionReceipt(txHash: string): Promise<ethers.providers.TransactionReceipt> {
-        return await this.provider.getTransactionReceipt(txHash);
+    async getBlock(blockNumber: number): Promise<ethers.providers.Block> {
+        return await this.provider.getBlock(blockNumber);
+    }
+
+    /**
+     * Reads the optional ERC-20 metadata functions. Each call may revert on
+     * non-compliant tokens, in which case the field is left null.
+     */
+    async getTokenMetadata(address: string): Promise<TokenMetadata> {
+        const contract = new ethers.Contract(address, TOKEN_METADATA_ABI, this.provider);
+        const [name, symbol, decimals, totalSupply] = await Promise.all([
+            contract.name().catch(() => null),
+            contract.symbol().catch(() => null),
+            contract.decimals().catch(() => null),
+            contract.totalSupply().catch(() => null)
+        ]);
+
+        return {
+            name,
+            symbol,
+            decimals: decimals !== null ? Number(decimals) : null,
+            total_supply: totalSupply ? totalSupply.toString() : null
+        };
+    }
+
+    /**
+     * Returns `tokenURI(id)` for ERC-721 or `uri(id)` for ERC-1155 collections.
+     */
+    async getTokenUri(address: string, tokenId: string, tokenType: 'ERC721' | 'ERC1155'): Promise<string> {
+        const contract = new ethers.Contract(address, NFT_METADATA_ABI, this.provider);
+        return tokenType === 'ERC721'
+            ? await contract.tokenURI(tokenId)
+            : await contract.uri(tokenId);
+    }
+
+    async getBalance(address: string, blockTag: string = 'latest'): Promise<string> {
+        return (await this.provider.getBalance(address, blockTag)).toString();
+    }
+
+    async getCode(address: string): Promise<string> {
+        return await this.provider.getCode(address);
+    }
+
+    /**
+     * Relays a raw JSON-RPC request or batch to the node.
+     */
+    async forwardRequest(payload: unknown): Promise<unknown> {
+        return await this.rpc.forward(payload);
+    }
+
+    getEndpointStatus(): RpcEndpointStatus[] {
+        return this.rpc.getEndpointStatus();
     }
 
     subscribeToNewBlocks(callback: (blockNumber: number) => void): void {
-        this.newBlockCallback = callback;
-        this.provider.on('block', (blockNumber: number) => {
-            logger.info(`New block received: ${blockNumber}`);
+        this.stopHeadSubscription?.();
+        this.stopHeadSubscription = this.rpc.subscribeNewHeads(blockNumber => {
+            logger.debug('New block received', { block_number: blockNumber });
             callback(blockNumber);
         });
     }
 
-    unsubscribeFromNewBlocks(callback: (blockNumber: number) => void): void {
-        this.provider.off('block', callback);
-        this.newBlockCallback = undefined;
+    unsubscribeFromNewBlocks(): void {
+        this.stopHeadSubscription?.();
+        this.stopHeadSubscription = undefined;
+    }
+
+    /**
+     * Reports transactions waiting in the node's mempool. Follows the
+     * `newPendingTransactions` subscription when a WebSocket endpoint is
+     * configured, fetching announced transactions in batches, and polls
+     * `txpool_content` otherwise. The same transaction may be reported more
+     * than once; nodes offering neither are not followed.
+     */
+    subscribeToPendingTransactions(callback: (transactions: ethers.providers.TransactionResponse[]) => void): void {
+        this.stopPendingSubscription?.();
+
+        let announced: string[] = [];
+        let fetchTimer: NodeJS.Timeout | undefined;
+        let supportsTxpool = true;
+
+        const fetchAnnounced = async () => {
+            fetchTimer = undefined;
+            const hashes = announced;
+            announced = [];
+            try {
+                const transactions = await this.getTransactionsByHash(hashes);
+                // Some were mined or evicted again before they could be fetched
+                callback(transactions.filter((tx): tx is ethers.providers.TransactionResponse => tx !== null && tx.blockNumber == null));
+            } catch (error) {
+                logger.warn('Failed to fetch pending transactions', { count: hashes.length }, error);
+            }
+        };
+
+        const stop = this.rpc.subscribe({
+            params: ['newPendingTransactions'],
+            onNotification: hash => {
+                if (typeof hash !== 'string') return;
+                announced.push(hash);
+                fetchTimer ??= setTimeout(fetchAnnounced, PENDING_FETCH_DELAY_MS);
+            },
+            poll: async () => {
+                if (!supportsTxpool) return;
+                try {
+                    const content = await this.rpc.send<{ pending?: Record<string, Record<string, any>> }>('txpool_content');
+                    const raw = Object.values(content?.pending || {}).flatMap(byNonce => Object.values(byNonce));
+                    callback(raw.map(tx => this.provider.formatter.transactionResponse(tx)));
+                } catch (error) {
+                    if (!isMethodNotSupported(error)) throw error;
+                    supportsTxpool = false;
+                    logger.warn('Node does not offer txpool_content, pending transactions are only followed over WebSocket');
+                }
+            },
+            poll_interval_ms: config.mempool.poll_interval_ms
+        });
+
+        this.stopPendingSubscription = () => {
+            stop();
+            clearTimeout(fetchTimer);
+        };
+    }
+
+    unsubscribeFromPendingTransactions(): void {
+        this.stopPendingSubscription?.();
+        this.stopPendingSubscription = undefined;
+    }
+
+    /**
+     * Looks up several transactions in batched requests, mined or pending.
+     * Null for transactions the node does not know, e.g. ones evicted from
+     * its mempool.
+     */
+    async getTransactionsByHash(hashes: string[]): Promise<(ethers.providers.TransactionResponse | null)[]> {
+        const raw = await this.rpc.batch(hashes.map(hash => ({ method: 'eth_getTransactionByHash', params: [hash] })));
+        return raw.map(tx => tx ? this.provider.formatter.transactionResponse(tx) : null);
     }
 }
@@ -1,78 +1,38 @@
 import { Router } from 'express';
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
-import { DatabaseService, ContractVerification, ContractSource } from './database';
-import { verifyContract } from '../utils/contract-verifier';
+import { DatabaseService } from './database';
+import { BlockchainService } from './blockchain';
+import { submitVerification, VerificationInputError } from '../utils/contract-verifier';
+import { ProxyInfo, resolveProxy } from '../utils/proxy-detector';
 import config from '../config';
 
-export function setupContractRoutes(database: DatabaseService): Router {
+export function setupContractRoutes(database: DatabaseService, blockchain: BlockchainService): Router {
     const router = Router();
 
     // Contract verification endpoint
     router.post('/verify', async (req, res) => {
-        try {
-            const {
-                address,
-                name,
-                source_code,
-                compiler_version,
-                optimization_used,
-                optimization_runs,
-                constructor_arguments,
-                license_type,
-                sources
-            } = req.body;
-
-            if (!ethers.utils.isAddress(address)) {
-                res.status(400).json({ error: 'Invalid contract address' });
-                return;
-            }
-
-            // Create verification record
-            const verification: ContractVerification = {
-                address,
-                name,
-                source_code,
-                compiler_version,
-                optimization_used,
-                optimization_runs,
-                constructor_arguments,
-                abi: '', // Will be populated during verification
-                verified_at: new Date(),
-                is_verified: false,
-                license_type,
-                verification_status: 'pending'
-            };
-
-            await database.insertContractVerification(verification);
-
-            // Handle multiple source files if provided
-            if (sources && Array.isArray(sources)) {
-                for (const source of sources) {
-                    const contractSource: ContractSource = {
-                        address,
-                        filename: source.filename,
-                        source_code: source.content,
-                        compiler_version,
-                        abi: '',
-                        creation_bytecode: '',
-                        deployed_bytecode: '',
-                        is_primary: source.filename === 'main.sol'
-                    };
-                    await database.insertContractSource(contractSource);
-                }
-            }
+        if (!config.features.verification) {
+            res.status(503).json({ error: 'Contract verification is disabled' });
+            return;
+        }
 
-            // Start verification process
-            verifyContract(verification, database).catch((error: Error) => {
-                logger.error('Contract verification failed:', error);
+        try {
+            const verification = await submitVerification(database, blockchain, {
+                ...req.body,
+                name: req.body.contract_name || req.body.name
             });
 
             res.json({
                 status: 'pending',
-                message: 'Verification submitted successfully'
+                message: 'Verification submitted successfully',
+                guid: verification.guid
             });
         } catch (error: unknown) {
+            if (error instanceof VerificationInputError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             logger.error('Error submitting verification:', error);
             res.status(500).json({ error: 'Failed to submit verification', message: errorMessage });
@@ -127,6 +87,91 @@ export function setupContractRoutes(database: DatabaseService): Router {
         }
     });
 
+    // Get NFT inventory of a collection
+    router.get('/:address/inventory', async (req, res) => {
+        try {
+            const { address } = req.params;
+            const limit = Math.min(parseInt(req.query.limit as string) || 10, config.api.max_page_size);
+            const offset = parseInt(req.query.offset as string) || 0;
+
+            if (!ethers.utils.isAddress(address)) {
+                res.status(400).json({ error: 'Invalid contract address' });
+                return;
+            }
+
+            const inventory = await database.getNftInventory(address, limit, offset);
+            res.json(inventory);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting NFT inventory:', error);
+            res.status(500).json({ error: 'Failed to get NFT inventory', message: errorMessage });
+        }
+    });
+
+    // Get a single NFT with owners, cached metadata and transfer history
+    router.get('/:address/tokens/:tokenId', async (req, res) => {
+        try {
+            const { address, tokenId } = req.params;
+            const limit = Math.min(parseInt(req.query.limit as string) || 10, config.api.max_page_size);
+            const offset = parseInt(req.query.offset as string) || 0;
+
+            if (!ethers.utils.isAddress(address)) {
+                res.status(400).json({ error: 'Invalid contract address' });
+                return;
+            }
+            if (!/^\d+$/.test(tokenId)) {
+                res.status(400).json({ error: 'Invalid token ID' });
+                return;
+            }
+
+            const [owners, metadata, transfers] = await Promise.all([
+                database.getNftOwners(address, tokenId),
+                database.getNftMetadata(address, tokenId),
+                database.getNftTransfers(address, tokenId, limit, offset)
+            ]);
+
+            if (owners.length === 0 && transfers.length === 0) {
+                res.status(404).json({ error: 'Token not found' });
+                return;
+            }
+
+            res.json({
+                token_address: address.toLowerCase(),
+                token_id: tokenId,
+                owners,
+                token_uri: metadata?.token_uri || null,
+                metadata: metadata?.metadata || null,
+                metadata_error: metadata?.error || null,
+                transfers
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting NFT:', error);
+            res.status(500).json({ error: 'Failed to get NFT', message: errorMessage });
+        }
+    });
+
+    // Get the NFTs an owner holds in a collection
+    router.get('/:address/owners/:owner', async (req, res) => {
+        try {
+            const { address, owner } = req.params;
+            const limit = Math.min(parseInt(req.query.limit as string) || 10, config.api.max_page_size);
+            const offset = parseInt(req.query.offset as string) || 0;
+
+            if (!ethers.utils.isAddress(address) || !ethers.utils.isAddress(owner)) {
+                res.status(400).json({ error: 'Invalid address' });
+                return;
+            }
+
+            const items = await database.getNftsByOwner(owner, address, limit, offset);
+            res.json(items);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting owner NFTs:', error);
+            res.status(500).json({ error: 'Failed to get owner NFTs', message: errorMessage });
+        }
+    });
+
     // Get full contract information
     router.get('/:address', async (req, res) => {
         try {
@@ -137,15 +182,13 @@ export function setupContractRoutes(database: DatabaseService): Router {
                 return;
             }
 
-            const provider = new ethers.providers.JsonRpcProvider(config.rpc.url);
-            
             // Get all contract information in parallel
-            const [code, verification, sources, interfaces, history] = await Promise.all([
-                provider.getCode(address),
+            const [code, verification, sources, interfaces, deployment] = await Promise.all([
+                blockchain.getCode(address),
                 database.getContractVerification(address),
                 database.getContractSources(address),
                 database.getContractInterfaces(address),
-                database.getTransactionsByAddress(address, 1000, 0)
+                database.getDeployedContract(address)
             ]);
 
             const isContract = code !== '0x';
@@ -154,14 +197,8 @@ export function setupContractRoutes(database: DatabaseService): Router {
                 return;
             }
 
-            // Find creation transaction
-            const creationTx = history.find(tx => 
-                tx.to_address === null && 
-                tx.from_address?.toLowerCase() === address.toLowerCase()
-            );
-
             // Try to get contract name and other common interfaces if not verified
-            let contractInfo = {
+            let contractInfo: Record<'name' | 'symbol' | 'decimals' | 'totalSupply', string | null> = {
                 name: verification?.name || null,
                 symbol: null,
                 decimals: null,
@@ -170,31 +207,28 @@ export function setupContractRoutes(database: DatabaseService): Router {
 
             if (!verification) {
                 try {
-                    const contract = new ethers.Contract(address, [
-                        'function name() view returns (string)',
-                        'function symbol() view returns (string)',
-                        'function decimals() view returns (uint8)',
-                        'function totalSupply() view returns (uint256)'
-                    ], provider);
-
-                    const [name, symbol, decimals, totalSupply] = await Promise.all([
-                        contract.name().catch(() => null),
-                        contract.symbol().catch(() => null),
-                        contract.decimals().catch(() => null),
-                        contract.totalSupply().catch(() => null)
-                    ]);
-
+                    const metadata = await blockchain.getTokenMetadata(address);
                     contractInfo = {
-                        name,
-                        symbol,
-                        decimals: decimals ? decimals.toString() : null,
-                        totalSupply: totalSupply ? totalSupply.toString() : null
+                        name: metadata.name,
+                        symbol: metadata.symbol,
+                        decimals: metadata.decimals ? metadata.decimals.toString() : null,
+                        totalSupply: metadata.total_supply
                     };
                 } catch (error) {
                     logger.info('Contract does not implement standard token interfaces');
                 }
             }
 
+            let proxy: ProxyInfo | null = null;
+            try {
+                proxy = await resolveProxy(database, blockchain, address, code);
+            } catch (error) {
+                logger.warn('Failed to resolve proxy implementation', { address }, error);
+            }
+            const implementationVerification = proxy?.implementation
+                ? await database.getContractVerification(proxy.implementation)
+                : null;
+
             res.json({
                 address,
                 type: 'contract',
@@ -211,9 +245,26 @@ export function setupContractRoutes(database: DatabaseService): Router {
                 abi: verification?.abi || null,
                 source_available: sources.length > 0,
                 interfaces: interfaces,
-                creation_transaction: creationTx?.hash || null,
-                creator: creationTx?.from_address || null,
-                created_at: creationTx?.created_at || null
+                creation_transaction: deployment?.creation_transaction_hash || null,
+                creator: deployment?.creator_address || null,
+                created_at: deployment?.created_at || null,
+                creation_block: deployment?.block_number ?? null,
+                creation_type: deployment?.creation_type || null,
+                creation_bytecode_hash: deployment?.creation_bytecode_hash || null,
+                runtime_code_hash: deployment?.runtime_code_hash || null,
+                is_proxy: proxy !== null,
+                proxy_type: proxy?.proxy_type || null,
+                implementation: proxy?.implementation || null,
+                implementation_name: implementationVerification?.is_verified ? implementationVerification.name : null,
+                implementation_abi: implementationVerification?.is_verified ? implementationVerification.abi : null,
+                beacon_address: proxy?.beacon_address || null,
+                proxy_upgrades: (proxy?.upgrades || []).map(upgrade => ({
+                    implementation: upgrade.implementation,
+                    beacon_address: upgrade.beacon_address,
+                    block_number: upgrade.block_number,
+                    transaction_hash: upgrade.transaction_hash,
+                    timestamp: upgrade.timestamp
+                }))
             });
         } catch (error: unknown) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
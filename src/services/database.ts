@@ -1,5 +1,9 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
+import { migrations } from './migrations';
+import { observePool, unobservePool } from '../utils/metrics';
+import { CursorError, Page, PageRequest, RowCount } from '../utils/cursor';
 
 export interface Block {
     number: number;
@@ -25,6 +29,31 @@ export interface Transaction {
     transaction_index: number;
     nonce: number;
     created_at: string;
+    cumulative_gas_used?: string;
+    contract_address?: string;
+}
+
+export interface EventLog {
+    transaction_hash: string;
+    log_index: number;
+    block_number: number;
+    transaction_index: number;
+    address: string;
+    topic0?: string;
+    topic1?: string;
+    topic2?: string;
+    topic3?: string;
+    data: string;
+}
+
+export interface LogFilter {
+    addresses?: string[];
+    // One entry per topic position; null matches anything, an array matches any of its values
+    topics?: (string[] | null)[];
+    from_block?: number;
+    to_block?: number;
+    limit: number;
+    offset: number;
 }
 
 export interface ContractVerification {
@@ -41,198 +70,2435 @@ export interface ContractVerification {
     license_type: string;
     verification_status: 'pending' | 'success' | 'failure';
     verification_error?: string;
+    // Standard JSON Input that is compiled, and the file declaring the contract when given as path:Name
+    standard_json?: string;
+    contract_path?: string | null;
+    // Opaque identifier handed out on submission for Etherscan-style status polling
+    guid?: string;
+}
+
+export interface ContractInterface {
+    address: string;
+    interface_type: string;
+    detected_at: Date;
+}
+
+export interface ContractSource {
+    address: string;
+    filename: string;
+    source_code: string;
+    compiler_version: string;
+    abi: string;
+    creation_bytecode: string;
+    deployed_bytecode: string;
+    is_primary: boolean;
+}
+
+export interface ChainReorg {
+    id?: number;
+    common_ancestor: number;
+    depth: number;
+    old_hashes: string[];
+    new_hashes: string[];
+    detected_at: Date;
+}
+
+export interface Token {
+    address: string;
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+    total_supply: string | null;
+    token_type: string;
+    first_seen_block: number;
+}
+
+export interface TokenTransfer {
+    transaction_hash: string;
+    log_index: number;
+    block_number: number;
+    token_address: string;
+    from_address: string;
+    to_address: string;
+    value: string;
+    timestamp: Date;
+}
+
+export interface TokenBalance {
+    token_address: string;
+    holder_address: string;
+    balance: string;
+    updated_block: number;
+}
+
+export interface TokenHolding extends TokenBalance {
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+}
+
+export interface NftTransfer {
+    transaction_hash: string;
+    log_index: number;
+    batch_index: number;
+    block_number: number;
+    token_address: string;
+    token_id: string;
+    from_address: string;
+    to_address: string;
+    amount: string;
+    token_type: 'ERC721' | 'ERC1155';
+    timestamp: Date;
+}
+
+export interface NftBalance {
+    token_address: string;
+    token_id: string;
+    owner_address: string;
+    quantity: string;
+    updated_block: number;
+}
+
+export interface NftMetadata {
+    token_address: string;
+    token_id: string;
+    token_uri: string | null;
+    metadata: any | null;
+    error: string | null;
+    fetched_at: Date;
+}
+
+export interface NftItem extends NftBalance {
+    token_uri: string | null;
+    metadata: any | null;
+}
+
+export interface InternalTransaction {
+    transaction_hash: string;
+    // Position in the call tree, e.g. [0, 2] is the third call made by the first call
+    trace_address: number[];
+    block_number: number;
+    depth: number;
+    type: string;
+    from_address: string;
+    to_address: string | null;
+    value: string;
+    gas: string;
+    gas_used: string;
+    input: string;
+    error: string | null;
+    timestamp: Date;
+}
+
+// Per-address counters maintained while indexing; addresses are lowercase
+export interface AddressStats {
+    address: string;
+    transaction_count: string;
+    sent_count: string;
+    received_count: string;
+    gas_used: string;
+    fees_paid: string;
+    first_seen_block: number;
+    first_seen_at: Date;
+    last_seen_block: number;
+    last_seen_at: Date;
+}
+
+interface AddressActivity {
+    transaction_count: number;
+    sent_count: number;
+    received_count: number;
+    gas_used: bigint;
+    fees_paid: bigint;
+    first_seen_block: number;
+    first_seen_at: Date;
+    last_seen_block: number;
+    last_seen_at: Date;
+}
+
+export const DAILY_METRICS = [
+    'transactions',
+    'blocks',
+    'active_addresses',
+    'new_contracts',
+    'gas_used',
+    'average_base_fee',
+    'average_block_time'
+] as const;
+
+export type DailyMetric = typeof DAILY_METRICS[number];
+
+// `day` is a UTC date (YYYY-MM-DD); averages are null on days without samples
+export interface DailyStat {
+    day: string;
+    value: string | number | null;
+}
+
+export interface RecentBlocksSummary {
+    block_count: number;
+    transaction_count: number;
+    first_timestamp: Date | null;
+    last_timestamp: Date | null;
+}
+
+export interface FeeHistoryTransaction {
+    block_number: number;
+    gas_price: string;
+    gas_used: string;
+}
+
+export interface GasConsumer {
+    address: string;
+    name: string | null;
+    gas_used: string;
+    transaction_count: number;
+}
+
+// Name and symbol matches of a search; a higher rank is a closer match
+export interface TokenSearchMatch extends Token {
+    rank: number;
+}
+
+export interface ContractSearchMatch {
+    address: string;
+    name: string;
+    rank: number;
+}
+
+export interface DeployedContract {
+    address: string;
+    creator_address: string;
+    creation_transaction_hash: string;
+    block_number: number;
+    // 'transaction' for top-level deployments, 'create'/'create2' for contracts deployed by a factory
+    creation_type: string;
+    creation_bytecode_hash: string;
+    runtime_code_hash: string | null;
+    created_at: Date;
+}
+
+export interface ContractProxy {
+    address: string;
+    // 'eip1167', 'eip1967', 'eip1967_beacon', 'eip1822', 'openzeppelin', 'gnosis_safe' or 'eip897'
+    proxy_type: string;
+    implementation: string | null;
+    beacon_address: string | null;
+    // Block whose state the detection read; later upgrades override `implementation`
+    block_number: number;
+    detected_at: Date;
+}
+
+export interface ProxyUpgrade {
+    transaction_hash: string;
+    log_index: number;
+    block_number: number;
+    proxy_address: string;
+    // Set by `Upgraded` events
+    implementation: string | null;
+    // Set by `BeaconUpgraded` events
+    beacon_address: string | null;
+    timestamp: Date;
+}
+
+export interface SignatureEntry {
+    // 4-byte selector for functions and errors, 32-byte topic for events
+    hash: string;
+    // Canonical text form, e.g. `transfer(address,uint256)`
+    signature: string;
+    type: 'function' | 'event' | 'error';
+    // 'verified' when declared by a verified contract's ABI, 'import' for bulk imports
+    source: 'verified' | 'import';
+    created_at: Date;
+}
+
+export interface PendingTransaction {
+    hash: string;
+    from_address: string;
+    to_address?: string;
+    value: string;
+    gas_limit: string;
+    // Null for EIP-1559 transactions, which set the two fee caps instead
+    gas_price: string | null;
+    max_fee_per_gas: string | null;
+    max_priority_fee_per_gas: string | null;
+    input: string;
+    nonce: number;
+    // 'dropped' once the node stopped reporting it, 'replaced' once another transaction with its nonce was mined
+    status: 'pending' | 'dropped' | 'replaced';
+    replaced_by: string | null;
+    first_seen_at: Date;
+    last_seen_at: Date;
+    resolved_at: Date | null;
+}
+
+export type NewPendingTransaction = Omit<PendingTransaction, 'status' | 'replaced_by' | 'first_seen_at' | 'last_seen_at' | 'resolved_at'>;
+
+export interface ContractListing extends DeployedContract {
+    name: string | null;
+    is_verified: boolean;
+    interfaces: string[];
+}
+
+export interface ContractListFilter {
+    verified?: boolean;
+    interface_type?: string;
+}
+
+export interface HistoryFilter {
+    start_block?: number;
+    end_block?: number;
+    sort: 'asc' | 'desc';
+    limit: number;
+    offset: number;
+}
+
+export interface TransactionWithBlockHash extends Transaction {
+    block_hash: string;
+}
+
+export interface TokenTransferDetails extends TokenTransfer {
+    token_name: string | null;
+    token_symbol: string | null;
+    token_decimals: number | null;
+    block_hash: string;
+    nonce: number;
+    gas_price: string;
+    gas_used: string;
+    cumulative_gas_used: string | null;
+    input: string;
+    transaction_index: number;
 }
 
-export interface ContractInterface {
-    address: string;
-    interface_type: string;
-    detected_at: Date;
-}
+export interface IndexedBlock {
+    block: Block;
+    transactions: Transaction[];
+    logs: EventLog[];
+    token_transfers: TokenTransfer[];
+    nft_transfers: NftTransfer[];
+    internal_transactions: InternalTransaction[];
+    contracts: DeployedContract[];
+    proxies: ContractProxy[];
+    proxy_upgrades: ProxyUpgrade[];
+}
+
+// Postgres accepts at most 65535 bind parameters per statement
+const MAX_QUERY_PARAMETERS = 65535;
+
+// Arbitrary key for the advisory lock that serialises concurrent migration runs
+const MIGRATION_LOCK_ID = 7415206;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const DAILY_METRIC_COLUMNS: Record<DailyMetric, string> = {
+    transactions: 'transaction_count',
+    blocks: 'block_count',
+    active_addresses: 'active_addresses',
+    new_contracts: 'new_contracts',
+    gas_used: 'gas_used',
+    average_base_fee: 'CASE WHEN base_fee_blocks > 0 THEN ROUND(base_fee_sum / base_fee_blocks) END',
+    average_block_time: 'CASE WHEN block_time_intervals > 0 THEN block_time_sum / block_time_intervals END'
+};
+
+// Counts above this are estimated from the query plan instead of counted
+const MAX_EXACT_COUNT = 10000;
+
+// LIKE treats % and _ as wildcards and backslash as the escape character
+function escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+export class DatabaseService {
+    private pool: Pool;
+
+    constructor(connectionString: string) {
+        this.pool = new Pool({
+            connectionString,
+            max: 20,
+            idleTimeoutMillis: 30000,
+            connectionTimeoutMillis: 2000,
+        });
+        observePool(this.pool);
+    }
+
+    /**
+     * Applies pending schema migrations in version order. Each migration runs
+     * in its own transaction and an advisory lock keeps several instances
+     * starting at once from migrating concurrently. Returns the versions that
+     * were applied.
+     */
+    async migrate(): Promise<number[]> {
+        const client = await this.pool.connect();
+        try {
+            await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+            await client.query(
+                `CREATE TABLE IF NOT EXISTS schema_migrations (
+                    version INTEGER PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+                )`
+            );
+
+            const result = await client.query<{ version: number }>('SELECT version FROM schema_migrations');
+            const applied = new Set(result.rows.map(row => row.version));
+            const pending = migrations
+                .filter(migration => !applied.has(migration.version))
+                .sort((a, b) => a.version - b.version);
+
+            for (const migration of pending) {
+                logger.info(`Applying migration ${migration.version}: ${migration.name}`);
+                try {
+                    await client.query('BEGIN');
+                    await client.query(migration.up);
+                    await client.query(
+                        'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+                        [migration.version, migration.name]
+                    );
+                    await client.query('COMMIT');
+                } catch (error) {
+                    await client.query('ROLLBACK');
+                    logger.error(`Migration ${migration.version} (${migration.name}) failed:`, error);
+                    throw error;
+                }
+            }
+
+            return pending.map(migration => migration.version);
+        } finally {
+            await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+            client.release();
+        }
+    }
+
+    async getSchemaVersion(): Promise<number> {
+        try {
+            const result = await this.pool.query<{ version: number | null }>(
+                'SELECT MAX(version) as version FROM schema_migrations'
+            );
+            return result.rows[0].version || 0;
+        } catch (error) {
+            logger.error('Failed to get schema version:', error);
+            return 0;
+        }
+    }
+
+    // Existing block methods
+    async getLatestBlock(): Promise<Block | null> {
+        try {
+            const result = await this.pool.query<Block>(
+                'SELECT * FROM blocks ORDER BY number DESC LIMIT 1'
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get latest block:', error);
+            return null;
+        }
+    }
+
+    async getBlock(number: number): Promise<Block | null> {
+        try {
+            const result = await this.pool.query<Block>(
+                'SELECT * FROM blocks WHERE number = $1',
+                [number]
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get block:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Loads everything indexed for a range of blocks, in the shape the indexer
+     * commits it. Used to replay blocks to realtime subscribers.
+     */
+    async getIndexedBlocks(fromBlock: number, toBlock: number): Promise<IndexedBlock[]> {
+        const range = [fromBlock, toBlock];
+        const [
+            blocks, transactions, logs, tokenTransfers, nftTransfers, internals, contracts, proxies, proxyUpgrades
+        ] = await Promise.all([
+            this.pool.query<Block>('SELECT * FROM blocks WHERE number BETWEEN $1 AND $2 ORDER BY number', range),
+            this.pool.query<Transaction>(
+                'SELECT * FROM transactions WHERE block_number BETWEEN $1 AND $2 ORDER BY block_number, transaction_index',
+                range
+            ),
+            this.pool.query<EventLog>(
+                'SELECT * FROM logs WHERE block_number BETWEEN $1 AND $2 ORDER BY block_number, log_index',
+                range
+            ),
+            this.pool.query<TokenTransfer>(
+                'SELECT * FROM token_transfers WHERE block_number BETWEEN $1 AND $2 ORDER BY block_number, log_index',
+                range
+            ),
+            this.pool.query<NftTransfer>(
+                'SELECT * FROM nft_transfers WHERE block_number BETWEEN $1 AND $2 ORDER BY block_number, log_index, batch_index',
+                range
+            ),
+            this.pool.query<InternalTransaction>(
+                'SELECT * FROM internal_transactions WHERE block_number BETWEEN $1 AND $2 ORDER BY block_number, transaction_hash, trace_address',
+                range
+            ),
+            this.pool.query<DeployedContract>(
+                'SELECT * FROM contracts WHERE block_number BETWEEN $1 AND $2 ORDER BY block_number',
+                range
+            ),
+            this.pool.query<ContractProxy>(
+                'SELECT * FROM contract_proxies WHERE block_number BETWEEN $1 AND $2 ORDER BY block_number',
+                range
+            ),
+            this.pool.query<ProxyUpgrade>(
+                'SELECT * FROM proxy_upgrades WHERE block_number BETWEEN $1 AND $2 ORDER BY block_number, log_index',
+                range
+            )
+        ]);
+
+        const inBlock = <T extends { block_number: number }>(rows: T[], number: number) =>
+            rows.filter(row => row.block_number === number);
+
+        return blocks.rows.map(block => ({
+            block,
+            transactions: inBlock(transactions.rows, block.number),
+            logs: inBlock(logs.rows, block.number),
+            token_transfers: inBlock(tokenTransfers.rows, block.number),
+            nft_transfers: inBlock(nftTransfers.rows, block.number),
+            internal_transactions: inBlock(internals.rows, block.number),
+            contracts: inBlock(contracts.rows, block.number),
+            proxies: inBlock(proxies.rows, block.number),
+            proxy_upgrades: inBlock(proxyUpgrades.rows, block.number)
+        }));
+    }
+
+    async getBlocks(page: PageRequest): Promise<Page<Block>> {
+        try {
+            const values: any[] = [];
+            const clauses = this.buildKeysetClauses(page, ['number'], 'DESC', [], values);
+            const result = await this.pool.query<Block>(`SELECT * FROM blocks ${clauses}`, values);
+            return this.toPage(result.rows, page);
+        } catch (error) {
+            logger.error('Failed to get blocks:', error);
+            throw error;
+        }
+    }
+
+    async countBlocks(): Promise<RowCount> {
+        return this.countRows('FROM blocks', []);
+    }
+
+    async getBlockByHash(hash: string): Promise<Block | null> {
+        try {
+            const result = await this.pool.query<Block>(
+                'SELECT * FROM blocks WHERE hash = $1',
+                [hash.toLowerCase()]
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get block by hash:', error);
+            return null;
+        }
+    }
+
+    async insertBlock(block: Block): Promise<void> {
+        try {
+            await this.insertBlockRow(this.pool, block);
+        } catch (error) {
+            logger.error('Failed to insert block:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Writes a block with everything derived from it in one database
+     * transaction, so a crash never leaves a block half indexed. Transfers
+     * that were already stored are skipped so re-processing a block never
+     * moves balances twice.
+     */
+    async insertBlockData(data: IndexedBlock): Promise<void> {
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            const isNewBlock = await this.insertBlockRow(client, data.block);
+            const transactions = await this.insertTransactionRows(client, data.transactions);
+            await this.applyAddressStats(client, transactions);
+            await this.reconcilePendingRows(client, data.transactions);
+            await this.insertLogRows(client, data.logs);
+            await this.insertInternalTransactionRows(client, data.internal_transactions);
+            await this.insertContractRows(client, data.contracts);
+            await this.insertContractProxyRows(client, data.proxies);
+            await this.insertProxyUpgradeRows(client, data.proxy_upgrades);
+
+            const tokenTransfers = await this.insertTokenTransferRows(client, data.token_transfers);
+            await this.applyTokenBalanceDeltas(client, tokenTransfers, 1n, data.block.number);
+
+            const nftTransfers = await this.insertNftTransferRows(client, data.nft_transfers);
+            await this.applyNftBalanceDeltas(client, nftTransfers, 1n, data.block.number);
+
+            if (isNewBlock) {
+                await this.accumulateDailyStats(client, data.block.number, data.block.number);
+            }
+
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            logger.error('Failed to insert block data', { block_number: data.block.number }, error);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Runs a multi-row INSERT, split into as many statements as the bind
+     * parameter limit requires. `statement` receives the VALUES list.
+     */
+    private async insertRows<T extends QueryResultRow = any>(
+        client: Pool | PoolClient,
+        rows: any[][],
+        statement: (values: string) => string
+    ): Promise<T[]> {
+        if (rows.length === 0) return [];
+
+        const columns = rows[0].length;
+        const chunkSize = Math.floor(MAX_QUERY_PARAMETERS / columns);
+        const inserted: T[] = [];
+
+        for (let start = 0; start < rows.length; start += chunkSize) {
+            const chunk = rows.slice(start, start + chunkSize);
+            const values = chunk.map((_, i) =>
+                `(${Array.from({ length: columns }, (_, j) => `$${i * columns + j + 1}`).join(', ')})`
+            );
+            const result = await client.query<T>(statement(values.join(', ')), chunk.flat());
+            inserted.push(...result.rows);
+        }
+
+        return inserted;
+    }
+
+    // Returns whether the block was not stored before
+    private async insertBlockRow(client: Pool | PoolClient, block: Block): Promise<boolean> {
+        const result = await client.query<{ inserted: boolean }>(
+            `INSERT INTO blocks (
+                number, hash, parent_hash, timestamp,
+                transactions_count, gas_used, gas_limit, base_fee_per_gas
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            ON CONFLICT (number) DO UPDATE SET
+                hash = EXCLUDED.hash,
+                parent_hash = EXCLUDED.parent_hash,
+                timestamp = EXCLUDED.timestamp,
+                transactions_count = EXCLUDED.transactions_count,
+                gas_used = EXCLUDED.gas_used,
+                gas_limit = EXCLUDED.gas_limit,
+                base_fee_per_gas = EXCLUDED.base_fee_per_gas
+            RETURNING (xmax = 0) AS inserted`,
+            [
+                block.number,
+                block.hash,
+                block.parent_hash,
+                block.timestamp,
+                block.transactions_count,
+                block.gas_used,
+                block.gas_limit,
+                block.base_fee_per_gas,
+            ]
+        );
+        return result.rows[0].inserted;
+    }
+
+    /**
+     * Upserts transactions and returns the ones that were not stored before, so
+     * counters are only applied once per transaction.
+     */
+    private async insertTransactionRows(client: Pool | PoolClient, transactions: Transaction[]): Promise<Transaction[]> {
+        const rows = await this.insertRows<{ hash: string; inserted: boolean }>(client, transactions.map(transaction => [
+            transaction.hash,
+            transaction.block_number,
+            transaction.from_address,
+            transaction.to_address,
+            transaction.value,
+            transaction.gas_price,
+            transaction.gas_used,
+            transaction.input,
+            transaction.status,
+            transaction.transaction_index,
+            transaction.nonce,
+            transaction.created_at,
+            transaction.cumulative_gas_used,
+            transaction.contract_address
+        ]), values =>
+            `INSERT INTO transactions (
+                hash, block_number, from_address, to_address,
+                value, gas_price, gas_used, input, status,
+                transaction_index, nonce, created_at,
+                cumulative_gas_used, contract_address
+            ) VALUES ${values}
+            ON CONFLICT (hash) DO UPDATE SET
+                block_number = EXCLUDED.block_number,
+                from_address = EXCLUDED.from_address,
+                to_address = EXCLUDED.to_address,
+                value = EXCLUDED.value,
+                gas_price = EXCLUDED.gas_price,
+                gas_used = EXCLUDED.gas_used,
+                input = EXCLUDED.input,
+                status = EXCLUDED.status,
+                transaction_index = EXCLUDED.transaction_index,
+                nonce = EXCLUDED.nonce,
+                created_at = EXCLUDED.created_at,
+                cumulative_gas_used = EXCLUDED.cumulative_gas_used,
+                contract_address = EXCLUDED.contract_address
+            RETURNING hash, (xmax = 0) AS inserted`
+        );
+
+        const inserted = new Set(rows.filter(row => row.inserted).map(row => row.hash));
+        return transactions.filter(transaction => inserted.has(transaction.hash));
+    }
+
+    /**
+     * Mined transactions leave the pending table; pending ones from the same
+     * sender with the same nonce can no longer be mined and are marked as
+     * replaced.
+     */
+    private async reconcilePendingRows(client: PoolClient, transactions: Transaction[]): Promise<void> {
+        if (transactions.length === 0) return;
+
+        const hashes = transactions.map(transaction => transaction.hash.toLowerCase());
+        await client.query('DELETE FROM pending_transactions WHERE hash = ANY($1)', [hashes]);
+        await client.query(
+            `UPDATE pending_transactions SET status = 'replaced', replaced_by = mined.hash, resolved_at = $4
+            FROM UNNEST($1::text[], $2::text[], $3::int[]) AS mined (hash, from_address, nonce)
+            WHERE pending_transactions.from_address = mined.from_address
+            AND pending_transactions.nonce = mined.nonce
+            AND pending_transactions.status <> 'replaced'`,
+            [hashes, transactions.map(transaction => transaction.from_address), transactions.map(transaction => transaction.nonce), new Date()]
+        );
+    }
+
+    private async insertLogRows(client: PoolClient, logs: EventLog[]): Promise<void> {
+        await this.insertRows(client, logs.map(log => [
+            log.transaction_hash,
+            log.log_index,
+            log.block_number,
+            log.transaction_index,
+            log.address.toLowerCase(),
+            log.topic0?.toLowerCase(),
+            log.topic1?.toLowerCase(),
+            log.topic2?.toLowerCase(),
+            log.topic3?.toLowerCase(),
+            log.data
+        ]), values =>
+            `INSERT INTO logs (
+                transaction_hash, log_index, block_number, transaction_index,
+                address, topic0, topic1, topic2, topic3, data
+            ) VALUES ${values}
+            ON CONFLICT (transaction_hash, log_index) DO UPDATE SET
+                block_number = EXCLUDED.block_number,
+                transaction_index = EXCLUDED.transaction_index,
+                address = EXCLUDED.address,
+                topic0 = EXCLUDED.topic0,
+                topic1 = EXCLUDED.topic1,
+                topic2 = EXCLUDED.topic2,
+                topic3 = EXCLUDED.topic3,
+                data = EXCLUDED.data`
+        );
+    }
+
+    private async insertInternalTransactionRows(client: PoolClient, internalTransactions: InternalTransaction[]): Promise<void> {
+        await this.insertRows(client, internalTransactions.map(internal => [
+            internal.transaction_hash,
+            internal.trace_address,
+            internal.block_number,
+            internal.depth,
+            internal.type,
+            internal.from_address.toLowerCase(),
+            internal.to_address?.toLowerCase() || null,
+            internal.value,
+            internal.gas,
+            internal.gas_used,
+            internal.input,
+            internal.error,
+            internal.timestamp
+        ]), values =>
+            `INSERT INTO internal_transactions (
+                transaction_hash, trace_address, block_number, depth, type,
+                from_address, to_address, value, gas, gas_used, input, error, timestamp
+            ) VALUES ${values}
+            ON CONFLICT (transaction_hash, trace_address) DO UPDATE SET
+                block_number = EXCLUDED.block_number,
+                depth = EXCLUDED.depth,
+                type = EXCLUDED.type,
+                from_address = EXCLUDED.from_address,
+                to_address = EXCLUDED.to_address,
+                value = EXCLUDED.value,
+                gas = EXCLUDED.gas,
+                gas_used = EXCLUDED.gas_used,
+                input = EXCLUDED.input,
+                error = EXCLUDED.error,
+                timestamp = EXCLUDED.timestamp`
+        );
+    }
+
+    private async insertContractRows(client: PoolClient, contracts: DeployedContract[]): Promise<void> {
+        await this.insertRows(client, contracts.map(contract => [
+            contract.address.toLowerCase(),
+            contract.creator_address.toLowerCase(),
+            contract.creation_transaction_hash,
+            contract.block_number,
+            contract.creation_type,
+            contract.creation_bytecode_hash,
+            contract.runtime_code_hash,
+            contract.created_at
+        ]), values =>
+            `INSERT INTO contracts (
+                address, creator_address, creation_transaction_hash, block_number,
+                creation_type, creation_bytecode_hash, runtime_code_hash, created_at
+            ) VALUES ${values}
+            ON CONFLICT (address) DO UPDATE SET
+                creator_address = EXCLUDED.creator_address,
+                creation_transaction_hash = EXCLUDED.creation_transaction_hash,
+                block_number = EXCLUDED.block_number,
+                creation_type = EXCLUDED.creation_type,
+                creation_bytecode_hash = EXCLUDED.creation_bytecode_hash,
+                runtime_code_hash = EXCLUDED.runtime_code_hash,
+                created_at = EXCLUDED.created_at`
+        );
+    }
+
+    private async insertContractProxyRows(client: Pool | PoolClient, proxies: ContractProxy[]): Promise<void> {
+        await this.insertRows(client, proxies.map(proxy => [
+            proxy.address.toLowerCase(),
+            proxy.proxy_type,
+            proxy.implementation?.toLowerCase() || null,
+            proxy.beacon_address?.toLowerCase() || null,
+            proxy.block_number,
+            proxy.detected_at
+        ]), values =>
+            `INSERT INTO contract_proxies (
+                address, proxy_type, implementation, beacon_address, block_number, detected_at
+            ) VALUES ${values}
+            ON CONFLICT (address) DO UPDATE SET
+                proxy_type = EXCLUDED.proxy_type,
+                implementation = EXCLUDED.implementation,
+                beacon_address = EXCLUDED.beacon_address,
+                block_number = EXCLUDED.block_number,
+                detected_at = EXCLUDED.detected_at`
+        );
+    }
+
+    private async insertProxyUpgradeRows(client: PoolClient, upgrades: ProxyUpgrade[]): Promise<void> {
+        await this.insertRows(client, upgrades.map(upgrade => [
+            upgrade.transaction_hash,
+            upgrade.log_index,
+            upgrade.block_number,
+            upgrade.proxy_address.toLowerCase(),
+            upgrade.implementation?.toLowerCase() || null,
+            upgrade.beacon_address?.toLowerCase() || null,
+            upgrade.timestamp
+        ]), values =>
+            `INSERT INTO proxy_upgrades (
+                transaction_hash, log_index, block_number, proxy_address,
+                implementation, beacon_address, timestamp
+            ) VALUES ${values}
+            ON CONFLICT (transaction_hash, log_index) DO NOTHING`
+        );
+    }
+
+    // Returns only the transfers that were not stored yet
+    private async insertTokenTransferRows(client: PoolClient, transfers: TokenTransfer[]): Promise<TokenTransfer[]> {
+        return await this.insertRows<TokenTransfer>(client, transfers.map(transfer => [
+            transfer.transaction_hash,
+            transfer.log_index,
+            transfer.block_number,
+            transfer.token_address.toLowerCase(),
+            transfer.from_address.toLowerCase(),
+            transfer.to_address.toLowerCase(),
+            transfer.value,
+            transfer.timestamp
+        ]), values =>
+            `INSERT INTO token_transfers (
+                transaction_hash, log_index, block_number, token_address,
+                from_address, to_address, value, timestamp
+            ) VALUES ${values}
+            ON CONFLICT (transaction_hash, log_index) DO NOTHING
+            RETURNING *`
+        );
+    }
+
+    // Returns only the transfers that were not stored yet
+    private async insertNftTransferRows(client: PoolClient, transfers: NftTransfer[]): Promise<NftTransfer[]> {
+        return await this.insertRows<NftTransfer>(client, transfers.map(transfer => [
+            transfer.transaction_hash,
+            transfer.log_index,
+            transfer.batch_index,
+            transfer.block_number,
+            transfer.token_address.toLowerCase(),
+            transfer.token_id,
+            transfer.from_address.toLowerCase(),
+            transfer.to_address.toLowerCase(),
+            transfer.amount,
+            transfer.token_type,
+            transfer.timestamp
+        ]), values =>
+            `INSERT INTO nft_transfers (
+                transaction_hash, log_index, batch_index, block_number, token_address,
+                token_id, from_address, to_address, amount, token_type, timestamp
+            ) VALUES ${values}
+            ON CONFLICT (transaction_hash, log_index, batch_index) DO NOTHING
+            RETURNING *`
+        );
+    }
+
+    /**
+     * Removes every block above `ancestor` together with the rows derived from
+     * those blocks. Used when a chain reorganization orphans part of the index.
+     * Returns the removed blocks ordered by number.
+     */
+    async deleteBlocksAfter(ancestor: number): Promise<Block[]> {
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            const transfers = await client.query<TokenTransfer>(
+                'DELETE FROM token_transfers WHERE block_number > $1 RETURNING *',
+                [ancestor]
+            );
+            await this.applyTokenBalanceDeltas(client, transfers.rows, -1n, ancestor);
+            const nftTransfers = await client.query<NftTransfer>(
+                'DELETE FROM nft_transfers WHERE block_number > $1 RETURNING *',
+                [ancestor]
+            );
+            await this.applyNftBalanceDeltas(client, nftTransfers.rows, -1n, ancestor);
+            await client.query('DELETE FROM contracts WHERE block_number > $1', [ancestor]);
+            await client.query('DELETE FROM contract_proxies WHERE block_number > $1', [ancestor]);
+            await client.query('DELETE FROM proxy_upgrades WHERE block_number > $1', [ancestor]);
+            await client.query('DELETE FROM internal_transactions WHERE block_number > $1', [ancestor]);
+            await client.query('DELETE FROM logs WHERE block_number > $1', [ancestor]);
+            const transactions = await client.query<Transaction>(
+                'DELETE FROM transactions WHERE block_number > $1 RETURNING *',
+                [ancestor]
+            );
+            await this.revertAddressStats(client, transactions.rows);
+            // Transactions displaced by orphaned ones may still be mined
+            await client.query(
+                `UPDATE pending_transactions SET status = 'pending', replaced_by = NULL, resolved_at = NULL, last_seen_at = $2
+                WHERE replaced_by = ANY($1)`,
+                [transactions.rows.map(transaction => transaction.hash), new Date()]
+            );
+            const result = await client.query<Block>(
+                'DELETE FROM blocks WHERE number > $1 RETURNING *',
+                [ancestor]
+            );
+            if (result.rows.length > 0) {
+                const firstOrphaned = result.rows.reduce((min, block) => block.timestamp < min ? block.timestamp : min, result.rows[0].timestamp);
+                await this.rebuildDailyStatsSince(client, firstOrphaned);
+            }
+            await client.query('COMMIT');
+            return result.rows.sort((a, b) => a.number - b.number);
+        } catch (error) {
+            await client.query('ROLLBACK');
+            logger.error('Failed to delete orphaned blocks:', error);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Chain reorganization methods
+    async insertReorg(reorg: ChainReorg): Promise<void> {
+        try {
+            await this.pool.query(
+                `INSERT INTO chain_reorgs (
+                    common_ancestor, depth, old_hashes, new_hashes, detected_at
+                ) VALUES ($1, $2, $3, $4, $5)`,
+                [
+                    reorg.common_ancestor,
+                    reorg.depth,
+                    reorg.old_hashes,
+                    reorg.new_hashes,
+                    reorg.detected_at
+                ]
+            );
+        } catch (error) {
+            logger.error('Failed to insert chain reorg:', error);
+            throw error;
+        }
+    }
+
+    async getReorgs(limit: number = 10, offset: number = 0): Promise<ChainReorg[]> {
+        try {
+            const result = await this.pool.query<ChainReorg>(
+                'SELECT * FROM chain_reorgs ORDER BY detected_at DESC, id DESC LIMIT $1 OFFSET $2',
+                [limit, offset]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get chain reorgs:', error);
+            return [];
+        }
+    }
+
+    // Existing transaction methods
+    async insertTransaction(transaction: Transaction): Promise<void> {
+        try {
+            await this.insertTransactionRows(this.pool, [transaction]);
+        } catch (error) {
+            logger.error('Failed to insert transaction:', error);
+            throw error;
+        }
+    }
+
+    async getTransaction(hash: string): Promise<Transaction | null> {
+        try {
+            const result = await this.pool.query<Transaction>(
+                'SELECT * FROM transactions WHERE hash = $1',
+                [hash]
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get transaction:', error);
+            return null;
+        }
+    }
+
+    async getTransactionsByBlock(blockNumber: number): Promise<Transaction[]> {
+        try {
+            const result = await this.pool.query<Transaction>(
+                'SELECT * FROM transactions WHERE block_number = $1 ORDER BY transaction_index ASC',
+                [blockNumber]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get transactions by block:', error);
+            return [];
+        }
+    }
+
+    async getTransactionsByBlocks(blockNumbers: number[]): Promise<Transaction[]> {
+        if (blockNumbers.length === 0) return [];
+        try {
+            const result = await this.pool.query<Transaction>(
+                'SELECT * FROM transactions WHERE block_number = ANY($1) ORDER BY block_number DESC, transaction_index ASC',
+                [blockNumbers]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get transactions by blocks:', error);
+            throw error;
+        }
+    }
+
+    async countTransactions(): Promise<RowCount> {
+        return this.countRows('FROM transactions', []);
+    }
+
+    /**
+     * Transactions sent or received by `address` (in stored checksum form). Each
+     * side is read through its own index and the two are merged.
+     */
+    async getTransactionsByAddress(address: string, page: PageRequest): Promise<Page<Transaction>> {
+        try {
+            const values: any[] = [address];
+            const columns = ['block_number', 'transaction_index'];
+            const sides = ['from_address', 'to_address'].map(column =>
+                `(SELECT * FROM transactions ${this.buildKeysetClauses(page, columns, 'DESC', [`${column} = $1`], values)})`
+            );
+            const outer = this.buildKeysetClauses(page, columns, 'DESC', [], values);
+
+            const result = await this.pool.query<Transaction>(
+                `SELECT * FROM (${sides.join(' UNION ')}) t ${outer}`,
+                values
+            );
+            return this.toPage(result.rows, page);
+        } catch (error) {
+            logger.error('Failed to get transactions by address:', error);
+            throw error;
+        }
+    }
+
+    async getLatestTransactions(page: PageRequest): Promise<Page<Transaction>> {
+        try {
+            const values: any[] = [];
+            const clauses = this.buildKeysetClauses(page, ['block_number', 'transaction_index'], 'DESC', [], values);
+            const result = await this.pool.query<Transaction>(`SELECT * FROM transactions ${clauses}`, values);
+            return this.toPage(result.rows, page);
+        } catch (error) {
+            logger.error('Failed to get latest transactions:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * WHERE, ORDER BY and LIMIT clauses of a keyset page over `columns`, which
+     * must match the cursor key. One extra row is fetched to tell whether more
+     * rows follow; pages going back are read in reverse and flipped by `toPage`.
+     */
+    private buildKeysetClauses(
+        page: PageRequest,
+        columns: string[],
+        order: 'ASC' | 'DESC',
+        conditions: string[],
+        values: any[]
+    ): string {
+        const backwards = page.cursor?.direction === 'prev';
+        const direction = backwards === (order === 'DESC') ? 'ASC' : 'DESC';
+        const where = [...conditions];
+
+        if (page.cursor) {
+            if (page.cursor.key.length !== columns.length) {
+                throw new CursorError();
+            }
+            const placeholders = page.cursor.key.map(part => {
+                values.push(part);
+                return `$${values.length}`;
+            });
+            where.push(`(${columns.join(', ')}) ${direction === 'ASC' ? '>' : '<'} (${placeholders.join(', ')})`);
+        }
+
+        values.push(page.limit + 1);
+        return `${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+            ORDER BY ${columns.map(column => `${column} ${direction}`).join(', ')}
+            LIMIT $${values.length}`;
+    }
+
+    private toPage<T>(rows: T[], page: PageRequest): Page<T> {
+        const results = rows.slice(0, page.limit);
+        if (page.cursor?.direction === 'prev') {
+            results.reverse();
+        }
+        return { results, has_more: rows.length > page.limit };
+    }
+
+    /**
+     * Counts rows exactly up to MAX_EXACT_COUNT and falls back to the planner's
+     * estimate above that, so totals stay cheap on large tables.
+     */
+    private async countRows(fromClause: string, values: any[]): Promise<RowCount> {
+        const exact = await this.pool.query<{ count: string }>(
+            `SELECT COUNT(*) AS count FROM (SELECT 1 ${fromClause} LIMIT ${MAX_EXACT_COUNT + 1}) counted`,
+            values
+        );
+        const count = parseInt(exact.rows[0].count);
+        if (count <= MAX_EXACT_COUNT) {
+            return { count, is_estimate: false };
+        }
+
+        const plan = await this.pool.query<{ 'QUERY PLAN': { Plan: { 'Plan Rows': number } }[] }>(
+            `EXPLAIN (FORMAT JSON) SELECT 1 ${fromClause}`,
+            values
+        );
+        const estimate = Math.round(plan.rows[0]['QUERY PLAN'][0].Plan['Plan Rows']);
+        return { count: Math.max(estimate, MAX_EXACT_COUNT + 1), is_estimate: true };
+    }
+
+    /**
+     * Block range, ordering and paging clauses shared by the history queries.
+     * `column` is the qualified block number column of the queried table.
+     */
+    private buildHistoryClauses(
+        filter: HistoryFilter,
+        column: string,
+        tiebreakers: string[],
+        conditions: string[],
+        values: any[]
+    ): string {
+        if (filter.start_block !== undefined) {
+            values.push(filter.start_block);
+            conditions.push(`${column} >= $${values.length}`);
+        }
+        if (filter.end_block !== undefined) {
+            values.push(filter.end_block);
+            conditions.push(`${column} <= $${values.length}`);
+        }
+
+        const direction = filter.sort === 'asc' ? 'ASC' : 'DESC';
+        const orderBy = [column, ...tiebreakers].map(part => `${part} ${direction}`).join(', ');
+        values.push(filter.limit, filter.offset);
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        return `${where}
+            ORDER BY ${orderBy}
+            LIMIT $${values.length - 1} OFFSET $${values.length}`;
+    }
+
+    async getAddressTransactionHistory(address: string, filter: HistoryFilter): Promise<TransactionWithBlockHash[]> {
+        try {
+            const values: any[] = [address];
+            const clauses = this.buildHistoryClauses(
+                filter, 't.block_number', ['t.transaction_index'],
+                ['(t.from_address = $1 OR t.to_address = $1)'], values
+            );
+
+            const result = await this.pool.query<TransactionWithBlockHash>(
+                `SELECT t.*, b.hash AS block_hash
+                FROM transactions t JOIN blocks b ON b.number = t.block_number
+                ${clauses}`,
+                values
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get address transaction history:', error);
+            throw error;
+        }
+    }
+
+    async getInternalTransactionHistory(
+        target: { address?: string; transaction_hash?: string },
+        filter: HistoryFilter
+    ): Promise<InternalTransaction[]> {
+        try {
+            const values: any[] = [];
+            const conditions: string[] = [];
+            if (target.address) {
+                values.push(target.address.toLowerCase());
+                conditions.push(`(from_address = $${values.length} OR to_address = $${values.length})`);
+            }
+            if (target.transaction_hash) {
+                values.push(target.transaction_hash);
+                conditions.push(`transaction_hash = $${values.length}`);
+            }
+
+            const clauses = this.buildHistoryClauses(
+                filter, 'block_number', ['transaction_hash', 'trace_address'], conditions, values
+            );
+            const result = await this.pool.query<InternalTransaction>(
+                `SELECT * FROM internal_transactions ${clauses}`,
+                values
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get internal transaction history:', error);
+            throw error;
+        }
+    }
+
+    async getTokenTransferHistory(
+        target: { address?: string; token_address?: string },
+        filter: HistoryFilter
+    ): Promise<TokenTransferDetails[]> {
+        try {
+            const values: any[] = [];
+            const conditions: string[] = [];
+            if (target.address) {
+                values.push(target.address.toLowerCase());
+                conditions.push(`(tt.from_address = $${values.length} OR tt.to_address = $${values.length})`);
+            }
+            if (target.token_address) {
+                values.push(target.token_address.toLowerCase());
+                conditions.push(`tt.token_address = $${values.length}`);
+            }
+
+            const clauses = this.buildHistoryClauses(filter, 'tt.block_number', ['tt.log_index'], conditions, values);
+            const result = await this.pool.query<TokenTransferDetails>(
+                `SELECT tt.*,
+                    tk.name AS token_name, tk.symbol AS token_symbol, tk.decimals AS token_decimals,
+                    b.hash AS block_hash,
+                    t.nonce, t.gas_price, t.gas_used, t.cumulative_gas_used, t.input, t.transaction_index
+                FROM token_transfers tt
+                JOIN blocks b ON b.number = tt.block_number
+                JOIN transactions t ON t.hash = tt.transaction_hash
+                LEFT JOIN tokens tk ON tk.address = tt.token_address
+                ${clauses}`,
+                values
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get token transfer history:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Number of the last block at or before `timestamp`, or of the first block
+     * at or after it.
+     */
+    async getBlockNumberByTime(timestamp: Date, closest: 'before' | 'after'): Promise<number | null> {
+        try {
+            const result = await this.pool.query<{ number: number }>(
+                closest === 'before'
+                    ? 'SELECT number FROM blocks WHERE timestamp <= $1 ORDER BY timestamp DESC, number DESC LIMIT 1'
+                    : 'SELECT number FROM blocks WHERE timestamp >= $1 ORDER BY timestamp ASC, number ASC LIMIT 1',
+                [timestamp]
+            );
+            return result.rows[0]?.number ?? null;
+        } catch (error) {
+            logger.error('Failed to get block number by time:', error);
+            throw error;
+        }
+    }
+
+    async getBlocksByNumbers(numbers: number[]): Promise<Block[]> {
+        try {
+            const result = await this.pool.query<Block>(
+                'SELECT * FROM blocks WHERE number = ANY($1)',
+                [numbers]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get blocks by numbers:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Adds newly indexed transactions to the per-address counters.
+     */
+    private async applyAddressStats(client: PoolClient, transactions: Transaction[]): Promise<void> {
+        for (const [address, delta] of this.aggregateAddressActivity(transactions)) {
+            await client.query(
+                `INSERT INTO address_stats (
+                    address, transaction_count, sent_count, received_count, gas_used, fees_paid,
+                    first_seen_block, first_seen_at, last_seen_block, last_seen_at
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                ON CONFLICT (address) DO UPDATE SET
+                    transaction_count = address_stats.transaction_count + EXCLUDED.transaction_count,
+                    sent_count = address_stats.sent_count + EXCLUDED.sent_count,
+                    received_count = address_stats.received_count + EXCLUDED.received_count,
+                    gas_used = address_stats.gas_used + EXCLUDED.gas_used,
+                    fees_paid = address_stats.fees_paid + EXCLUDED.fees_paid,
+                    first_seen_block = LEAST(address_stats.first_seen_block, EXCLUDED.first_seen_block),
+                    first_seen_at = LEAST(address_stats.first_seen_at, EXCLUDED.first_seen_at),
+                    last_seen_block = GREATEST(address_stats.last_seen_block, EXCLUDED.last_seen_block),
+                    last_seen_at = GREATEST(address_stats.last_seen_at, EXCLUDED.last_seen_at)`,
+                [
+                    address, delta.transaction_count, delta.sent_count, delta.received_count,
+                    delta.gas_used.toString(), delta.fees_paid.toString(),
+                    delta.first_seen_block, delta.first_seen_at, delta.last_seen_block, delta.last_seen_at
+                ]
+            );
+        }
+    }
+
+    /**
+     * Takes orphaned transactions back out of the per-address counters. Must run
+     * after they are deleted, as the last activity is looked up again.
+     */
+    private async revertAddressStats(client: PoolClient, transactions: Transaction[]): Promise<void> {
+        for (const [address, delta] of this.aggregateAddressActivity(transactions)) {
+            const result = await client.query<AddressStats>(
+                `UPDATE address_stats SET
+                    transaction_count = transaction_count - $2,
+                    sent_count = sent_count - $3,
+                    received_count = received_count - $4,
+                    gas_used = gas_used - $5,
+                    fees_paid = fees_paid - $6
+                WHERE address = $1
+                RETURNING *`,
+                [address, delta.transaction_count, delta.sent_count, delta.received_count, delta.gas_used.toString(), delta.fees_paid.toString()]
+            );
+
+            const stats = result.rows[0];
+            if (!stats) continue;
+            if (parseInt(stats.transaction_count) <= 0) {
+                await client.query('DELETE FROM address_stats WHERE address = $1', [address]);
+                continue;
+            }
+
+            // Transactions store checksummed addresses
+            const checksummed = ethers.utils.getAddress(address);
+            const latest = await client.query<{ block_number: number; created_at: Date }>(
+                `SELECT block_number, created_at FROM transactions
+                WHERE from_address = $1 OR to_address = $1
+                ORDER BY block_number DESC LIMIT 1`,
+                [checksummed]
+            );
+            if (latest.rows[0]) {
+                await client.query(
+                    'UPDATE address_stats SET last_seen_block = $2, last_seen_at = $3 WHERE address = $1',
+                    [address, latest.rows[0].block_number, latest.rows[0].created_at]
+                );
+            }
+        }
+    }
+
+    private aggregateAddressActivity(transactions: Transaction[]): Map<string, AddressActivity> {
+        const activity = new Map<string, AddressActivity>();
+
+        const entry = (address: string, transaction: Transaction): AddressActivity => {
+            const key = address.toLowerCase();
+            const timestamp = new Date(transaction.created_at);
+            let stats = activity.get(key);
+            if (!stats) {
+                stats = {
+                    transaction_count: 0,
+                    sent_count: 0,
+                    received_count: 0,
+                    gas_used: 0n,
+                    fees_paid: 0n,
+                    first_seen_block: transaction.block_number,
+                    first_seen_at: timestamp,
+                    last_seen_block: transaction.block_number,
+                    last_seen_at: timestamp
+                };
+                activity.set(key, stats);
+            }
+            if (transaction.block_number < stats.first_seen_block) {
+                stats.first_seen_block = transaction.block_number;
+                stats.first_seen_at = timestamp;
+            }
+            if (transaction.block_number > stats.last_seen_block) {
+                stats.last_seen_block = transaction.block_number;
+                stats.last_seen_at = timestamp;
+            }
+            return stats;
+        };
+
+        for (const transaction of transactions) {
+            const sender = entry(transaction.from_address, transaction);
+            sender.transaction_count++;
+            sender.sent_count++;
+            sender.gas_used += BigInt(transaction.gas_used);
+            sender.fees_paid += BigInt(transaction.gas_used) * BigInt(transaction.gas_price);
+
+            if (transaction.to_address) {
+                const recipient = entry(transaction.to_address, transaction);
+                recipient.received_count++;
+                // Self-transfers count once
+                if (transaction.to_address.toLowerCase() !== transaction.from_address.toLowerCase()) {
+                    recipient.transaction_count++;
+                }
+            }
+        }
+
+        return activity;
+    }
+
+    async getAddressStats(address: string): Promise<AddressStats | null> {
+        try {
+            const result = await this.pool.query<AddressStats>(
+                'SELECT * FROM address_stats WHERE address = $1',
+                [address.toLowerCase()]
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get address stats:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Adds blocks `fromBlock`..`toBlock`, which must already be stored, to the
+     * daily rollups. Days are UTC; a block's interval to its parent counts
+     * towards the block's own day.
+     */
+    private async accumulateDailyStats(client: PoolClient, fromBlock: number, toBlock: number): Promise<void> {
+        await client.query(
+            `INSERT INTO daily_stats (
+                day, block_count, transaction_count, gas_used, base_fee_sum, base_fee_blocks,
+                block_time_sum, block_time_intervals, new_contracts
+            )
+            SELECT b.day, b.block_count, b.transaction_count, b.gas_used, b.base_fee_sum, b.base_fee_blocks,
+                b.block_time_sum, b.block_time_intervals, COALESCE(c.new_contracts, 0)
+            FROM (
+                SELECT (b.timestamp AT TIME ZONE 'UTC')::date AS day,
+                    COUNT(*) AS block_count,
+                    SUM(b.transactions_count) AS transaction_count,
+                    SUM(b.gas_used) AS gas_used,
+                    COALESCE(SUM(b.base_fee_per_gas), 0) AS base_fee_sum,
+                    COUNT(b.base_fee_per_gas) AS base_fee_blocks,
+                    COALESCE(SUM(EXTRACT(EPOCH FROM b.timestamp - p.timestamp)), 0) AS block_time_sum,
+                    COUNT(p.number) AS block_time_intervals
+                FROM blocks b
+                LEFT JOIN blocks p ON p.number = b.number - 1
+                WHERE b.number BETWEEN $1 AND $2
+                GROUP BY 1
+            ) b
+            LEFT JOIN (
+                SELECT (b.timestamp AT TIME ZONE 'UTC')::date AS day, COUNT(*) AS new_contracts
+                FROM contracts c JOIN blocks b ON b.number = c.block_number
+                WHERE c.block_number BETWEEN $1 AND $2
+                GROUP BY 1
+            ) c ON c.day = b.day
+            ON CONFLICT (day) DO UPDATE SET
+                block_count = daily_stats.block_count + EXCLUDED.block_count,
+                transaction_count = daily_stats.transaction_count + EXCLUDED.transaction_count,
+                gas_used = daily_stats.gas_used + EXCLUDED.gas_used,
+                base_fee_sum = daily_stats.base_fee_sum + EXCLUDED.base_fee_sum,
+                base_fee_blocks = daily_stats.base_fee_blocks + EXCLUDED.base_fee_blocks,
+                block_time_sum = daily_stats.block_time_sum + EXCLUDED.block_time_sum,
+                block_time_intervals = daily_stats.block_time_intervals + EXCLUDED.block_time_intervals,
+                new_contracts = daily_stats.new_contracts + EXCLUDED.new_contracts`,
+            [fromBlock, toBlock]
+        );
+
+        // Only addresses not yet seen that day raise the active address count
+        await client.query(
+            `WITH inserted AS (
+                INSERT INTO daily_active_addresses (day, address)
+                SELECT DISTINCT (b.timestamp AT TIME ZONE 'UTC')::date, LOWER(a.address)
+                FROM transactions t
+                JOIN blocks b ON b.number = t.block_number
+                CROSS JOIN LATERAL (VALUES (t.from_address), (t.to_address)) a(address)
+                WHERE t.block_number BETWEEN $1 AND $2 AND a.address IS NOT NULL
+                ON CONFLICT DO NOTHING
+                RETURNING day
+            )
+            UPDATE daily_stats s SET active_addresses = s.active_addresses + c.count
+            FROM (SELECT day, COUNT(*) AS count FROM inserted GROUP BY day) c
+            WHERE s.day = c.day`,
+            [fromBlock, toBlock]
+        );
+    }
+
+    /**
+     * Recomputes the rollups of the UTC day of `since` and all later days from
+     * the blocks still stored. Used after a reorg removed blocks.
+     */
+    private async rebuildDailyStatsSince(client: PoolClient, since: Date): Promise<void> {
+        const day = since.toISOString().slice(0, 10);
+        await client.query('DELETE FROM daily_stats WHERE day >= $1', [day]);
+        await client.query('DELETE FROM daily_active_addresses WHERE day >= $1', [day]);
+
+        const range = await client.query<{ first: number | null; last: number | null }>(
+            `SELECT MIN(number) AS first, MAX(number) AS last FROM blocks
+            WHERE timestamp >= ($1::date AT TIME ZONE 'UTC')`,
+            [day]
+        );
+        const { first, last } = range.rows[0];
+        if (first !== null && last !== null) {
+            await this.accumulateDailyStats(client, first, last);
+        }
+    }
+
+    /**
+     * Rebuilds all daily rollups from the stored blocks, `batchSize` blocks per
+     * transaction. The indexer must not be running meanwhile, or its blocks
+     * would be counted twice.
+     */
+    async rebuildDailyStats(batchSize: number, onProgress?: (toBlock: number, lastBlock: number) => void): Promise<void> {
+        const range = await this.pool.query<{ first: number | null; last: number | null }>(
+            'SELECT MIN(number) AS first, MAX(number) AS last FROM blocks'
+        );
+        const { first, last } = range.rows[0];
+
+        await this.pool.query('TRUNCATE daily_stats, daily_active_addresses');
+        if (first === null || last === null) return;
+
+        for (let start = first; start <= last; start += batchSize) {
+            const end = Math.min(start + batchSize - 1, last);
+            const client = await this.pool.connect();
+            try {
+                await client.query('BEGIN');
+                await this.accumulateDailyStats(client, start, end);
+                await client.query('COMMIT');
+            } catch (error) {
+                await client.query('ROLLBACK');
+                logger.error(`Failed to rebuild daily stats of blocks ${start}-${end}:`, error);
+                throw error;
+            } finally {
+                client.release();
+            }
+            onProgress?.(end, last);
+        }
+    }
+
+    async getDailyStats(metric: DailyMetric, from: string, to: string): Promise<DailyStat[]> {
+        try {
+            const result = await this.pool.query<DailyStat>(
+                `SELECT to_char(day, 'YYYY-MM-DD') AS day, ${DAILY_METRIC_COLUMNS[metric]} AS value
+                FROM daily_stats
+                WHERE day BETWEEN $1 AND $2
+                ORDER BY day ASC`,
+                [from, to]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get daily stats:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Block and transaction counts over the latest `sampleSize` blocks.
+     */
+    async getRecentBlocksSummary(sampleSize: number): Promise<RecentBlocksSummary> {
+        try {
+            const result = await this.pool.query<{
+                block_count: string;
+                transaction_count: string | null;
+                first_timestamp: Date | null;
+                last_timestamp: Date | null;
+            }>(
+                `SELECT COUNT(*) AS block_count, SUM(transactions_count) AS transaction_count,
+                    MIN(timestamp) AS first_timestamp, MAX(timestamp) AS last_timestamp
+                FROM (SELECT * FROM blocks ORDER BY number DESC LIMIT $1) recent`,
+                [sampleSize]
+            );
+            const row = result.rows[0];
+            return {
+                block_count: parseInt(row.block_count),
+                transaction_count: parseInt(row.transaction_count || '0'),
+                first_timestamp: row.first_timestamp,
+                last_timestamp: row.last_timestamp
+            };
+        } catch (error) {
+            logger.error('Failed to get recent blocks summary:', error);
+            throw error;
+        }
+    }
+
+    async countAddresses(): Promise<RowCount> {
+        return this.countRows('FROM address_stats', []);
+    }
+
+    /**
+     * Blocks in a range with the gas price and gas used of their transactions,
+     * for fee history and the gas oracle.
+     */
+    async getFeeHistoryData(fromBlock: number, toBlock: number): Promise<{ blocks: Block[]; transactions: FeeHistoryTransaction[] }> {
+        try {
+            const [blocks, transactions] = await Promise.all([
+                this.pool.query<Block>(
+                    'SELECT * FROM blocks WHERE number BETWEEN $1 AND $2 ORDER BY number ASC',
+                    [fromBlock, toBlock]
+                ),
+                this.pool.query<FeeHistoryTransaction>(
+                    'SELECT block_number, gas_price, gas_used FROM transactions WHERE block_number BETWEEN $1 AND $2',
+                    [fromBlock, toBlock]
+                )
+            ]);
+            return { blocks: blocks.rows, transactions: transactions.rows };
+        } catch (error) {
+            logger.error('Failed to get fee history data:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Addresses whose calls used the most gas since `fromBlock`. Plain value
+     * transfers are left out, so this ranks contracts.
+     */
+    async getTopGasConsumers(fromBlock: number, limit: number): Promise<GasConsumer[]> {
+        try {
+            const result = await this.pool.query<GasConsumer>(
+                `SELECT LOWER(t.to_address) AS address,
+                    COALESCE(v.name, tk.name) AS name,
+                    SUM(t.gas_used) AS gas_used,
+                    COUNT(*)::integer AS transaction_count
+                FROM transactions t
+                LEFT JOIN contract_verifications v ON v.address = LOWER(t.to_address) AND v.is_verified
+                LEFT JOIN tokens tk ON tk.address = LOWER(t.to_address)
+                WHERE t.block_number >= $1 AND t.to_address IS NOT NULL AND t.input <> '0x'
+                GROUP BY LOWER(t.to_address), v.name, tk.name
+                ORDER BY SUM(t.gas_used) DESC
+                LIMIT $2`,
+                [fromBlock, limit]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get top gas consumers:', error);
+            throw error;
+        }
+    }
+
+    async getGasUsedSince(fromBlock: number): Promise<string> {
+        try {
+            const result = await this.pool.query<{ gas_used: string | null }>(
+                'SELECT SUM(gas_used) AS gas_used FROM blocks WHERE number >= $1',
+                [fromBlock]
+            );
+            return result.rows[0].gas_used || '0';
+        } catch (error) {
+            logger.error('Failed to get gas used:', error);
+            throw error;
+        }
+    }
+
+    async getTotalTransactions(): Promise<number> {
+        try {
+            const result = await this.pool.query<{ count: string }>(
+                'SELECT COUNT(*) as count FROM transactions'
+            );
+            return parseInt(result.rows[0].count);
+        } catch (error) {
+            logger.error('Failed to get total transactions:', error);
+            return 0;
+        }
+    }
+
+    // Internal transaction methods
+    async getInternalTransactionsByTransaction(hash: string): Promise<InternalTransaction[]> {
+        try {
+            const result = await this.pool.query<InternalTransaction>(
+                'SELECT * FROM internal_transactions WHERE transaction_hash = $1 ORDER BY trace_address ASC',
+                [hash]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get internal transactions by transaction:', error);
+            return [];
+        }
+    }
+
+    async getInternalTransactionsByAddress(address: string, page: PageRequest): Promise<Page<InternalTransaction>> {
+        try {
+            const values: any[] = [address.toLowerCase()];
+            const columns = ['block_number', 'transaction_hash', 'trace_address'];
+            const sides = ['from_address', 'to_address'].map(column =>
+                `(SELECT * FROM internal_transactions ${this.buildKeysetClauses(page, columns, 'DESC', [`${column} = $1`], values)})`
+            );
+            const outer = this.buildKeysetClauses(page, columns, 'DESC', [], values);
+
+            const result = await this.pool.query<InternalTransaction>(
+                `SELECT * FROM (${sides.join(' UNION ')}) t ${outer}`,
+                values
+            );
+            return this.toPage(result.rows, page);
+        } catch (error) {
+            logger.error('Failed to get internal transactions by address:', error);
+            throw error;
+        }
+    }
+
+    async countInternalTransactionsByAddress(address: string): Promise<RowCount> {
+        return this.countRows(
+            'FROM internal_transactions WHERE from_address = $1 OR to_address = $1',
+            [address.toLowerCase()]
+        );
+    }
+
+    // Event log methods
+    async getLogsByTransaction(hash: string): Promise<EventLog[]> {
+        try {
+            const result = await this.pool.query<EventLog>(
+                'SELECT * FROM logs WHERE transaction_hash = $1 ORDER BY log_index ASC',
+                [hash]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get logs by transaction:', error);
+            return [];
+        }
+    }
+
+    private buildLogConditions(filter: Omit<LogFilter, 'limit' | 'offset'>, values: any[]): string[] {
+        const conditions: string[] = [];
+
+        if (filter.addresses && filter.addresses.length > 0) {
+            values.push(filter.addresses.map(address => address.toLowerCase()));
+            conditions.push(`address = ANY($${values.length})`);
+        }
+
+        (filter.topics || []).slice(0, 4).forEach((topic, position) => {
+            if (!topic || topic.length === 0) return;
+            values.push(topic.map(value => value.toLowerCase()));
+            conditions.push(`topic${position} = ANY($${values.length})`);
+        });
+
+        if (filter.from_block !== undefined) {
+            values.push(filter.from_block);
+            conditions.push(`block_number >= $${values.length}`);
+        }
+
+        if (filter.to_block !== undefined) {
+            values.push(filter.to_block);
+            conditions.push(`block_number <= $${values.length}`);
+        }
+
+        return conditions;
+    }
+
+    async getLogs(filter: LogFilter): Promise<EventLog[]> {
+        try {
+            const values: any[] = [];
+            const conditions = this.buildLogConditions(filter, values);
+            values.push(filter.limit, filter.offset);
+            const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+            const result = await this.pool.query<EventLog>(
+                `SELECT * FROM logs ${where}
+                ORDER BY block_number ASC, log_index ASC
+                LIMIT $${values.length - 1} OFFSET $${values.length}`,
+                values
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get logs:', error);
+            throw error;
+        }
+    }
+
+    async getLogPage(filter: Omit<LogFilter, 'limit' | 'offset'>, page: PageRequest): Promise<Page<EventLog>> {
+        try {
+            const values: any[] = [];
+            const conditions = this.buildLogConditions(filter, values);
+            const clauses = this.buildKeysetClauses(page, ['block_number', 'log_index'], 'ASC', conditions, values);
+            const result = await this.pool.query<EventLog>(`SELECT * FROM logs ${clauses}`, values);
+            return this.toPage(result.rows, page);
+        } catch (error) {
+            logger.error('Failed to get logs:', error);
+            throw error;
+        }
+    }
+
+    async countLogs(filter: Omit<LogFilter, 'limit' | 'offset'>): Promise<RowCount> {
+        const values: any[] = [];
+        const conditions = this.buildLogConditions(filter, values);
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        return this.countRows(`FROM logs ${where}`, values);
+    }
+
+    // Token methods
+    async getToken(address: string): Promise<Token | null> {
+        try {
+            const result = await this.pool.query<Token>(
+                'SELECT * FROM tokens WHERE address = $1',
+                [address.toLowerCase()]
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get token:', error);
+            return null;
+        }
+    }
+
+    async insertToken(token: Token): Promise<void> {
+        try {
+            await this.pool.query(
+                `INSERT INTO tokens (
+                    address, name, symbol, decimals, total_supply, token_type, first_seen_block
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+                ON CONFLICT (address) DO UPDATE SET
+                    name = EXCLUDED.name,
+                    symbol = EXCLUDED.symbol,
+                    decimals = EXCLUDED.decimals,
+                    total_supply = EXCLUDED.total_supply,
+                    token_type = EXCLUDED.token_type,
+                    first_seen_block = LEAST(tokens.first_seen_block, EXCLUDED.first_seen_block)`,
+                [
+                    token.address.toLowerCase(),
+                    token.name,
+                    token.symbol,
+                    token.decimals,
+                    token.total_supply,
+                    token.token_type,
+                    token.first_seen_block
+                ]
+            );
+        } catch (error) {
+            logger.error('Failed to insert token:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Adds (sign = 1) or reverts (sign = -1) the effect of transfers on
+     * `token_balances`. The zero address is the mint/burn counterparty and
+     * never gets a balance.
+     */
+    private async applyTokenBalanceDeltas(
+        client: PoolClient,
+        transfers: TokenTransfer[],
+        sign: bigint,
+        blockNumber: number
+    ): Promise<void> {
+        const deltas = new Map<string, bigint>();
+        const add = (token: string, holder: string, amount: bigint) => {
+            if (holder === ZERO_ADDRESS) return;
+            const key = `${token}:${holder}`;
+            deltas.set(key, (deltas.get(key) || 0n) + amount);
+        };
+
+        for (const transfer of transfers) {
+            const value = BigInt(transfer.value) * sign;
+            add(transfer.token_address, transfer.from_address, -value);
+            add(transfer.token_address, transfer.to_address, value);
+        }
+
+        for (const [key, delta] of deltas) {
+            if (delta === 0n) continue;
+            const [token, holder] = key.split(':');
+            await client.query(
+                `INSERT INTO token_balances (token_address, holder_address, balance, updated_block)
+                VALUES ($1, $2, $3, $4)
+                ON CONFLICT (token_address, holder_address) DO UPDATE SET
+                    balance = token_balances.balance + EXCLUDED.balance,
+                    updated_block = EXCLUDED.updated_block`,
+                [token, holder, delta.toString(), blockNumber]
+            );
+        }
+    }
+
+    async getTokenTransfers(tokenAddress: string, page: PageRequest): Promise<Page<TokenTransfer>> {
+        try {
+            const values: any[] = [tokenAddress.toLowerCase()];
+            const clauses = this.buildKeysetClauses(page, ['block_number', 'log_index'], 'DESC', ['token_address = $1'], values);
+            const result = await this.pool.query<TokenTransfer>(`SELECT * FROM token_transfers ${clauses}`, values);
+            return this.toPage(result.rows, page);
+        } catch (error) {
+            logger.error('Failed to get token transfers:', error);
+            throw error;
+        }
+    }
 
-export interface ContractSource {
-    address: string;
-    filename: string;
-    source_code: string;
-    compiler_version: string;
-    abi: string;
-    creation_bytecode: string;
-    deployed_bytecode: string;
-    is_primary: boolean;
-}
+    async countTokenTransfers(tokenAddress: string): Promise<RowCount> {
+        return this.countRows('FROM token_transfers WHERE token_address = $1', [tokenAddress.toLowerCase()]);
+    }
 
-export class DatabaseService {
-    private pool: Pool;
+    async getTokenHolders(tokenAddress: string, limit: number = 10, offset: number = 0): Promise<TokenBalance[]> {
+        try {
+            const result = await this.pool.query<TokenBalance>(
+                `SELECT * FROM token_balances WHERE token_address = $1 AND balance > 0
+                ORDER BY balance DESC, holder_address ASC LIMIT $2 OFFSET $3`,
+                [tokenAddress.toLowerCase(), limit, offset]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get token holders:', error);
+            return [];
+        }
+    }
 
-    constructor(connectionString: string) {
-        this.pool = new Pool({
-            connectionString,
-            max: 20,
-            idleTimeoutMillis: 30000,
-            connectionTimeoutMillis: 2000,
-        });
+    async getTokenHoldersCount(tokenAddress: string): Promise<number> {
+        try {
+            const result = await this.pool.query<{ count: string }>(
+                'SELECT COUNT(*) as count FROM token_balances WHERE token_address = $1 AND balance > 0',
+                [tokenAddress.toLowerCase()]
+            );
+            return parseInt(result.rows[0].count);
+        } catch (error) {
+            logger.error('Failed to get token holders count:', error);
+            return 0;
+        }
     }
 
-    // Existing block methods
-    async getLatestBlock(): Promise<Block | null> {
+    async getTokenHoldings(holderAddress: string, limit: number = 10, offset: number = 0): Promise<TokenHolding[]> {
         try {
-            const result = await this.pool.query<Block>(
-                'SELECT * FROM blocks ORDER BY number DESC LIMIT 1'
+            const result = await this.pool.query<TokenHolding>(
+                `SELECT b.*, t.name, t.symbol, t.decimals
+                FROM token_balances b
+                LEFT JOIN tokens t ON t.address = b.token_address
+                WHERE b.holder_address = $1 AND b.balance > 0
+                ORDER BY b.token_address ASC LIMIT $2 OFFSET $3`,
+                [holderAddress.toLowerCase(), limit, offset]
             );
-            return result.rows[0] || null;
+            return result.rows;
         } catch (error) {
-            logger.error('Failed to get latest block:', error);
-            return null;
+            logger.error('Failed to get token holdings:', error);
+            return [];
         }
     }
 
-    async getBlock(number: number): Promise<Block | null> {
+    // NFT methods
+    private async applyNftBalanceDeltas(
+        client: PoolClient,
+        transfers: NftTransfer[],
+        sign: bigint,
+        blockNumber: number
+    ): Promise<void> {
+        const deltas = new Map<string, bigint>();
+        const add = (token: string, tokenId: string, owner: string, amount: bigint) => {
+            if (owner === ZERO_ADDRESS) return;
+            const key = `${token}:${tokenId}:${owner}`;
+            deltas.set(key, (deltas.get(key) || 0n) + amount);
+        };
+
+        for (const transfer of transfers) {
+            const amount = BigInt(transfer.amount) * sign;
+            add(transfer.token_address, transfer.token_id, transfer.from_address, -amount);
+            add(transfer.token_address, transfer.token_id, transfer.to_address, amount);
+        }
+
+        for (const [key, delta] of deltas) {
+            if (delta === 0n) continue;
+            const [token, tokenId, owner] = key.split(':');
+            await client.query(
+                `INSERT INTO nft_balances (token_address, token_id, owner_address, quantity, updated_block)
+                VALUES ($1, $2, $3, $4, $5)
+                ON CONFLICT (token_address, token_id, owner_address) DO UPDATE SET
+                    quantity = nft_balances.quantity + EXCLUDED.quantity,
+                    updated_block = EXCLUDED.updated_block`,
+                [token, tokenId, owner, delta.toString(), blockNumber]
+            );
+        }
+    }
+
+    async getNftInventory(tokenAddress: string, limit: number = 10, offset: number = 0): Promise<NftItem[]> {
         try {
-            const result = await this.pool.query<Block>(
-                'SELECT * FROM blocks WHERE number = $1',
-                [number]
+            const result = await this.pool.query<NftItem>(
+                `SELECT b.*, m.token_uri, m.metadata
+                FROM nft_balances b
+                LEFT JOIN nft_metadata m ON m.token_address = b.token_address AND m.token_id = b.token_id
+                WHERE b.token_address = $1 AND b.quantity > 0
+                ORDER BY b.token_id ASC, b.owner_address ASC LIMIT $2 OFFSET $3`,
+                [tokenAddress.toLowerCase(), limit, offset]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get NFT inventory:', error);
+            return [];
+        }
+    }
+
+    async getNftOwners(tokenAddress: string, tokenId: string): Promise<NftBalance[]> {
+        try {
+            const result = await this.pool.query<NftBalance>(
+                `SELECT * FROM nft_balances
+                WHERE token_address = $1 AND token_id = $2 AND quantity > 0
+                ORDER BY quantity DESC, owner_address ASC`,
+                [tokenAddress.toLowerCase(), tokenId]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get NFT owners:', error);
+            return [];
+        }
+    }
+
+    async getNftTransfers(tokenAddress: string, tokenId: string, limit: number = 10, offset: number = 0): Promise<NftTransfer[]> {
+        try {
+            const result = await this.pool.query<NftTransfer>(
+                `SELECT * FROM nft_transfers WHERE token_address = $1 AND token_id = $2
+                ORDER BY block_number DESC, log_index DESC, batch_index DESC LIMIT $3 OFFSET $4`,
+                [tokenAddress.toLowerCase(), tokenId, limit, offset]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get NFT transfers:', error);
+            return [];
+        }
+    }
+
+    /**
+     * NFTs held by `ownerAddress`, optionally restricted to one collection.
+     */
+    async getNftsByOwner(ownerAddress: string, tokenAddress?: string, limit: number = 10, offset: number = 0): Promise<NftItem[]> {
+        try {
+            const result = await this.pool.query<NftItem>(
+                `SELECT b.*, m.token_uri, m.metadata
+                FROM nft_balances b
+                LEFT JOIN nft_metadata m ON m.token_address = b.token_address AND m.token_id = b.token_id
+                WHERE b.owner_address = $1 AND b.quantity > 0
+                    AND ($2::text IS NULL OR b.token_address = $2)
+                ORDER BY b.token_address ASC, b.token_id ASC LIMIT $3 OFFSET $4`,
+                [ownerAddress.toLowerCase(), tokenAddress?.toLowerCase() || null, limit, offset]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get NFTs by owner:', error);
+            return [];
+        }
+    }
+
+    async getNftMetadata(tokenAddress: string, tokenId: string): Promise<NftMetadata | null> {
+        try {
+            const result = await this.pool.query<NftMetadata>(
+                'SELECT * FROM nft_metadata WHERE token_address = $1 AND token_id = $2',
+                [tokenAddress.toLowerCase(), tokenId]
             );
             return result.rows[0] || null;
         } catch (error) {
-            logger.error('Failed to get block:', error);
+            logger.error('Failed to get NFT metadata:', error);
             return null;
         }
     }
 
-    async insertBlock(block: Block): Promise<void> {
+    // Tokens whose metadata last failed to resolve before `fetchedBefore`, longest waiting first
+    async getFailedNftMetadata(
+        fetchedBefore: Date,
+        limit: number
+    ): Promise<{ token_address: string; token_id: string; token_type: 'ERC721' | 'ERC1155' }[]> {
+        try {
+            const result = await this.pool.query(
+                `SELECT nft_metadata.token_address, nft_metadata.token_id, tokens.token_type
+                FROM nft_metadata
+                JOIN tokens ON tokens.address = nft_metadata.token_address
+                WHERE nft_metadata.error IS NOT NULL AND nft_metadata.fetched_at < $1
+                AND tokens.token_type IN ('ERC721', 'ERC1155')
+                ORDER BY nft_metadata.fetched_at
+                LIMIT $2`,
+                [fetchedBefore, limit]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get failed NFT metadata:', error);
+            return [];
+        }
+    }
+
+    async upsertNftMetadata(metadata: NftMetadata): Promise<void> {
         try {
             await this.pool.query(
-                `INSERT INTO blocks (
-                    number, hash, parent_hash, timestamp,
-                    transactions_count, gas_used, gas_limit, base_fee_per_gas
-                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-                ON CONFLICT (number) DO UPDATE SET
-                    hash = EXCLUDED.hash,
-                    parent_hash = EXCLUDED.parent_hash,
-                    timestamp = EXCLUDED.timestamp,
-                    transactions_count = EXCLUDED.transactions_count,
-                    gas_used = EXCLUDED.gas_used,
-                    gas_limit = EXCLUDED.gas_limit,
-                    base_fee_per_gas = EXCLUDED.base_fee_per_gas`,
+                `INSERT INTO nft_metadata (
+                    token_address, token_id, token_uri, metadata, error, fetched_at
+                ) VALUES ($1, $2, $3, $4, $5, $6)
+                ON CONFLICT (token_address, token_id) DO UPDATE SET
+                    token_uri = EXCLUDED.token_uri,
+                    metadata = EXCLUDED.metadata,
+                    error = EXCLUDED.error,
+                    fetched_at = EXCLUDED.fetched_at`,
                 [
-                    block.number,
-                    block.hash,
-                    block.parent_hash,
-                    block.timestamp,
-                    block.transactions_count,
-                    block.gas_used,
-                    block.gas_limit,
-                    block.base_fee_per_gas,
+                    metadata.token_address.toLowerCase(),
+                    metadata.token_id,
+                    metadata.token_uri,
+                    metadata.metadata !== null ? JSON.stringify(metadata.metadata) : null,
+                    metadata.error,
+                    metadata.fetched_at
                 ]
             );
         } catch (error) {
-            logger.error('Failed to insert block:', error);
+            logger.error('Failed to upsert NFT metadata:', error);
             throw error;
         }
     }
 
-    // Existing transaction methods
-    async insertTransaction(transaction: Transaction): Promise<void> {
+    // Contract registry methods
+    async getDeployedContract(address: string): Promise<DeployedContract | null> {
         try {
-            await this.pool.query(
-                `INSERT INTO transactions (
-                    hash, block_number, from_address, to_address,
-                    value, gas_price, gas_used, input, status,
-                    transaction_index, nonce, created_at
-                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+            const result = await this.pool.query<DeployedContract>(
+                'SELECT * FROM contracts WHERE address = $1',
+                [address.toLowerCase()]
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get deployed contract:', error);
+            return null;
+        }
+    }
+
+    async getContractProxy(address: string): Promise<ContractProxy | null> {
+        try {
+            const result = await this.pool.query<ContractProxy>(
+                'SELECT * FROM contract_proxies WHERE address = $1',
+                [address.toLowerCase()]
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get contract proxy:', error);
+            return null;
+        }
+    }
+
+    async upsertContractProxy(proxy: ContractProxy): Promise<void> {
+        try {
+            await this.insertContractProxyRows(this.pool, [proxy]);
+        } catch (error) {
+            logger.error('Failed to upsert contract proxy:', error);
+            throw error;
+        }
+    }
+
+    // Newest first
+    async getProxyUpgrades(proxyAddress: string, limit: number): Promise<ProxyUpgrade[]> {
+        try {
+            const result = await this.pool.query<ProxyUpgrade>(
+                `SELECT * FROM proxy_upgrades WHERE proxy_address = $1
+                ORDER BY block_number DESC, log_index DESC
+                LIMIT $2`,
+                [proxyAddress.toLowerCase(), limit]
+            );
+            return result.rows;
+        } catch (error) {
+            logger.error('Failed to get proxy upgrades:', error);
+            return [];
+        }
+    }
+
+    // Pending transaction methods
+
+    /**
+     * Stores transactions reported by the node's mempool and returns how many
+     * were new. Transactions seen again are marked as seen now, and pending
+     * again if they had been dropped; ones already mined are skipped.
+     */
+    async insertPendingTransactions(transactions: NewPendingTransaction[], seenAt: Date): Promise<number> {
+        if (transactions.length === 0) return 0;
+        try {
+            // A statement may not touch the same row twice
+            const unique = new Map(transactions.map(transaction => [transaction.hash.toLowerCase(), transaction]));
+            const mined = await this.pool.query<{ hash: string }>(
+                'SELECT hash FROM transactions WHERE hash = ANY($1)',
+                [[...unique.keys()]]
+            );
+            for (const row of mined.rows) {
+                unique.delete(row.hash);
+            }
+
+            const rows = await this.insertRows<{ inserted: boolean }>(this.pool, [...unique].map(([hash, transaction]) => [
+                hash,
+                transaction.from_address,
+                transaction.to_address,
+                transaction.value,
+                transaction.gas_limit,
+                transaction.gas_price,
+                transaction.max_fee_per_gas,
+                transaction.max_priority_fee_per_gas,
+                transaction.input,
+                transaction.nonce,
+                'pending',
+                seenAt,
+                seenAt
+            ]), values =>
+                `INSERT INTO pending_transactions (
+                    hash, from_address, to_address, value, gas_limit,
+                    gas_price, max_fee_per_gas, max_priority_fee_per_gas,
+                    input, nonce, status, first_seen_at, last_seen_at
+                ) VALUES ${values}
                 ON CONFLICT (hash) DO UPDATE SET
-                    block_number = EXCLUDED.block_number,
-                    from_address = EXCLUDED.from_address,
-                    to_address = EXCLUDED.to_address,
-                    value = EXCLUDED.value,
-                    gas_price = EXCLUDED.gas_price,
-                    gas_used = EXCLUDED.gas_used,
-                    input = EXCLUDED.input,
-                    status = EXCLUDED.status,
-                    transaction_index = EXCLUDED.transaction_index,
-                    nonce = EXCLUDED.nonce,
-                    created_at = EXCLUDED.created_at`,
-                [
-                    transaction.hash,
-                    transaction.block_number,
-                    transaction.from_address,
-                    transaction.to_address,
-                    transaction.value,
-                    transaction.gas_price,
-                    transaction.gas_used,
-                    transaction.input,
-                    transaction.status,
-                    transaction.transaction_index,
-                    transaction.nonce,
-                    transaction.created_at
-                ]
+                    status = 'pending',
+                    last_seen_at = EXCLUDED.last_seen_at,
+                    resolved_at = NULL
+                WHERE pending_transactions.status <> 'replaced'
+                RETURNING (xmax = 0) AS inserted`
             );
+            return rows.filter(row => row.inserted).length;
         } catch (error) {
-            logger.error('Failed to insert transaction:', error);
+            logger.error('Failed to insert pending transactions:', error);
             throw error;
         }
     }
 
-    async getTransaction(hash: string): Promise<Transaction | null> {
+    async getPendingTransaction(hash: string): Promise<PendingTransaction | null> {
         try {
-            const result = await this.pool.query<Transaction>(
-                'SELECT * FROM transactions WHERE hash = $1',
-                [hash]
+            const result = await this.pool.query<PendingTransaction>(
+                'SELECT * FROM pending_transactions WHERE hash = $1',
+                [hash.toLowerCase()]
             );
             return result.rows[0] || null;
         } catch (error) {
-            logger.error('Failed to get transaction:', error);
+            logger.error('Failed to get pending transaction:', error);
             return null;
         }
     }
 
-    async getTransactionsByBlock(blockNumber: number): Promise<Transaction[]> {
+    // Transactions still pending that `address` (in stored checksum form) sent or receives, newest first
+    async getPendingTransactionsByAddress(address: string, limit: number): Promise<PendingTransaction[]> {
         try {
-            const result = await this.pool.query<Transaction>(
-                'SELECT * FROM transactions WHERE block_number = $1 ORDER BY transaction_index ASC',
-                [blockNumber]
+            const result = await this.pool.query<PendingTransaction>(
+                `SELECT * FROM pending_transactions
+                WHERE status = 'pending' AND (from_address = $1 OR to_address = $1)
+                ORDER BY first_seen_at DESC, hash
+                LIMIT $2`,
+                [address, limit]
             );
             return result.rows;
         } catch (error) {
-            logger.error('Failed to get transactions by block:', error);
+            logger.error('Failed to get pending transactions by address:', error);
             return [];
         }
     }
 
-    async getTransactionsByAddress(address: string, limit: number = 10, offset: number = 0): Promise<Transaction[]> {
+    /**
+     * Catches up with what block indexing cannot see: transactions reported as
+     * pending only after they or a same-nonce replacement were indexed.
+     * Dropped and replaced transactions resolved before `purgeBefore` are
+     * deleted. Returns how many transactions are still pending.
+     */
+    async sweepPendingTransactions(purgeBefore: Date): Promise<number> {
         try {
-            const result = await this.pool.query<Transaction>(
-                'SELECT * FROM transactions WHERE from_address = $1 OR to_address = $1 ORDER BY block_number DESC, transaction_index DESC LIMIT $2 OFFSET $3',
-                [address, limit, offset]
+            await this.pool.query(
+                'DELETE FROM pending_transactions USING transactions WHERE transactions.hash = pending_transactions.hash'
+            );
+            await this.pool.query(
+                `UPDATE pending_transactions SET status = 'replaced', replaced_by = transactions.hash, resolved_at = $1
+                FROM transactions
+                WHERE pending_transactions.status <> 'replaced'
+                AND transactions.from_address = pending_transactions.from_address
+                AND transactions.nonce = pending_transactions.nonce`,
+                [new Date()]
+            );
+            await this.pool.query(
+                `DELETE FROM pending_transactions WHERE status <> 'pending' AND resolved_at < $1`,
+                [purgeBefore]
+            );
+
+            const result = await this.pool.query<{ count: string }>(
+                `SELECT COUNT(*) AS count FROM pending_transactions WHERE status = 'pending'`
+            );
+            return parseInt(result.rows[0].count);
+        } catch (error) {
+            logger.error('Failed to sweep pending transactions:', error);
+            throw error;
+        }
+    }
+
+    // Hashes of pending transactions not seen since `seenBefore`, longest unseen first
+    async getStalePendingTransactions(seenBefore: Date, limit: number): Promise<string[]> {
+        try {
+            const result = await this.pool.query<{ hash: string }>(
+                `SELECT hash FROM pending_transactions
+                WHERE status = 'pending' AND last_seen_at < $1
+                ORDER BY last_seen_at
+                LIMIT $2`,
+                [seenBefore, limit]
+            );
+            return result.rows.map(row => row.hash);
+        } catch (error) {
+            logger.error('Failed to get stale pending transactions:', error);
+            throw error;
+        }
+    }
+
+    async markPendingTransactionsSeen(hashes: string[], seenAt: Date): Promise<void> {
+        if (hashes.length === 0) return;
+        try {
+            await this.pool.query(
+                `UPDATE pending_transactions SET last_seen_at = $2
+                WHERE hash = ANY($1) AND status = 'pending'`,
+                [hashes.map(hash => hash.toLowerCase()), seenAt]
+            );
+        } catch (error) {
+            logger.error('Failed to mark pending transactions as seen:', error);
+            throw error;
+        }
+    }
+
+    async dropPendingTransactions(hashes: string[], droppedAt: Date): Promise<void> {
+        if (hashes.length === 0) return;
+        try {
+            await this.pool.query(
+                `UPDATE pending_transactions SET status = 'dropped', resolved_at = $2
+                WHERE hash = ANY($1) AND status = 'pending'`,
+                [hashes.map(hash => hash.toLowerCase()), droppedAt]
+            );
+        } catch (error) {
+            logger.error('Failed to drop pending transactions:', error);
+            throw error;
+        }
+    }
+
+    // Signature database methods
+
+    /**
+     * Stores text signatures and returns how many were new. Signatures that
+     * were imported before and now show up in a verified ABI are marked as
+     * verified.
+     */
+    async insertSignatures(
+        signatures: Pick<SignatureEntry, 'hash' | 'signature' | 'type'>[],
+        source: SignatureEntry['source']
+    ): Promise<number> {
+        try {
+            // A statement may not touch the same row twice
+            const unique = new Map(signatures.map(entry => [`${entry.hash.toLowerCase()} ${entry.signature}`, entry]));
+            const createdAt = new Date();
+            const rows = await this.insertRows<{ inserted: boolean }>(this.pool, [...unique.values()].map(entry => [
+                entry.hash.toLowerCase(),
+                entry.signature,
+                entry.type,
+                source,
+                createdAt
+            ]), values =>
+                `INSERT INTO signatures (hash, signature, type, source, created_at)
+                VALUES ${values}
+                ON CONFLICT (hash, signature) DO UPDATE SET source = EXCLUDED.source
+                WHERE EXCLUDED.source = 'verified' AND signatures.source <> 'verified'
+                RETURNING (xmax = 0) AS inserted`
+            );
+            return rows.filter(row => row.inserted).length;
+        } catch (error) {
+            logger.error('Failed to insert signatures:', error);
+            throw error;
+        }
+    }
+
+    // Best guess first for each hash: signatures from verified ABIs, then the oldest
+    async getSignatures(hashes: string[]): Promise<SignatureEntry[]> {
+        if (hashes.length === 0) return [];
+        try {
+            const result = await this.pool.query<SignatureEntry>(
+                `SELECT * FROM signatures WHERE hash = ANY($1)
+                ORDER BY hash, source = 'verified' DESC, created_at, signature`,
+                [hashes.map(hash => hash.toLowerCase())]
             );
             return result.rows;
         } catch (error) {
-            logger.error('Failed to get transactions by address:', error);
+            logger.error('Failed to get signatures:', error);
             return [];
         }
     }
 
-    async getLatestTransactions(limit: number = 10, offset: number = 0): Promise<Transaction[]> {
+    // Verified ABIs in address order, for seeding the signature database
+    async getVerifiedAbis(afterAddress: string, limit: number): Promise<Pick<ContractVerification, 'address' | 'abi'>[]> {
+        const result = await this.pool.query<Pick<ContractVerification, 'address' | 'abi'>>(
+            `SELECT address, abi FROM contract_verifications
+            WHERE is_verified AND abi IS NOT NULL AND address > $1
+            ORDER BY address
+            LIMIT $2`,
+            [afterAddress.toLowerCase(), limit]
+        );
+        return result.rows;
+    }
+
+    async getContracts(filter: ContractListFilter, page: PageRequest): Promise<{ page: Page<ContractListing>; total: RowCount }> {
         try {
-            const result = await this.pool.query<Transaction>(
-                'SELECT * FROM transactions ORDER BY block_number DESC, transaction_index DESC LIMIT $1 OFFSET $2',
-                [limit, offset]
+            const conditions: string[] = [];
+            const values: any[] = [];
+
+            if (filter.verified !== undefined) {
+                values.push(filter.verified);
+                conditions.push(`COALESCE(v.is_verified, FALSE) = $${values.length}`);
+            }
+
+            if (filter.interface_type) {
+                values.push(filter.interface_type);
+                conditions.push(`EXISTS (
+                    SELECT 1 FROM contract_interfaces i
+                    WHERE i.address = c.address AND i.interface_type = $${values.length}
+                )`);
+            }
+
+            const from = 'FROM contracts c LEFT JOIN contract_verifications v ON v.address = c.address';
+            const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+            const countValues = [...values];
+            const clauses = this.buildKeysetClauses(page, ['c.block_number', 'c.address'], 'DESC', conditions, values);
+
+            const [rows, total] = await Promise.all([
+                this.pool.query<ContractListing>(
+                    `SELECT c.*, v.name, COALESCE(v.is_verified, FALSE) AS is_verified,
+                        ARRAY(
+                            SELECT i.interface_type FROM contract_interfaces i
+                            WHERE i.address = c.address ORDER BY i.interface_type
+                        ) AS interfaces
+                    ${from} ${clauses}`,
+                    values
+                ),
+                this.countRows(`${from} ${where}`, countValues)
+            ]);
+
+            return { page: this.toPage(rows.rows, page), total };
+        } catch (error) {
+            logger.error('Failed to get contracts:', error);
+            throw error;
+        }
+    }
+
+    // Search methods
+
+    /**
+     * Tokens whose name or symbol starts with `query`, exact matches first.
+     */
+    async searchTokens(query: string, limit: number): Promise<TokenSearchMatch[]> {
+        try {
+            const term = query.toLowerCase();
+            const result = await this.pool.query<TokenSearchMatch>(
+                `SELECT *,
+                    CASE WHEN LOWER(symbol) = $1 OR LOWER(name) = $1 THEN 2 ELSE 1 END AS rank
+                FROM tokens
+                WHERE LOWER(symbol) LIKE $2 OR LOWER(name) LIKE $2
+                ORDER BY rank DESC, LENGTH(name), name
+                LIMIT $3`,
+                [term, `${escapeLikePattern(term)}%`, limit]
             );
             return result.rows;
         } catch (error) {
-            logger.error('Failed to get latest transactions:', error);
-            return [];
+            logger.error('Failed to search tokens:', error);
+            throw error;
         }
     }
 
-    async getTotalTransactions(): Promise<number> {
+    /**
+     * Verified contracts whose name starts with `query`, exact matches first.
+     */
+    async searchVerifiedContracts(query: string, limit: number): Promise<ContractSearchMatch[]> {
         try {
-            const result = await this.pool.query<{ count: string }>(
-                'SELECT COUNT(*) as count FROM transactions'
+            const term = query.toLowerCase();
+            const result = await this.pool.query<ContractSearchMatch>(
+                `SELECT address, name,
+                    CASE WHEN LOWER(name) = $1 THEN 2 ELSE 1 END AS rank
+                FROM contract_verifications
+                WHERE is_verified AND LOWER(name) LIKE $2
+                ORDER BY rank DESC, LENGTH(name), name
+                LIMIT $3`,
+                [term, `${escapeLikePattern(term)}%`, limit]
             );
-            return parseInt(result.rows[0].count);
+            return result.rows;
         } catch (error) {
-            logger.error('Failed to get total transactions:', error);
-            return 0;
+            logger.error('Failed to search verified contracts:', error);
+            throw error;
         }
     }
 
@@ -250,6 +2516,19 @@ export class DatabaseService {
         }
     }
 
+    async getContractVerificationByGuid(guid: string): Promise<ContractVerification | null> {
+        try {
+            const result = await this.pool.query<ContractVerification>(
+                'SELECT * FROM contract_verifications WHERE guid = $1',
+                [guid]
+            );
+            return result.rows[0] || null;
+        } catch (error) {
+            logger.error('Failed to get contract verification by guid:', error);
+            return null;
+        }
+    }
+
     async insertContractVerification(verification: ContractVerification): Promise<void> {
         try {
             await this.pool.query(
@@ -257,8 +2536,9 @@ export class DatabaseService {
                     address, name, source_code, compiler_version,
                     optimization_used, optimization_runs, constructor_arguments,
                     abi, verified_at, is_verified, license_type,
-                    verification_status, verification_error
-                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+                    verification_status, verification_error,
+                    standard_json, contract_path, guid
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
                 ON CONFLICT (address) DO UPDATE SET
                     name = EXCLUDED.name,
                     source_code = EXCLUDED.source_code,
@@ -271,7 +2551,10 @@ export class DatabaseService {
                     is_verified = EXCLUDED.is_verified,
                     license_type = EXCLUDED.license_type,
                     verification_status = EXCLUDED.verification_status,
-                    verification_error = EXCLUDED.verification_error`,
+                    verification_error = EXCLUDED.verification_error,
+                    standard_json = EXCLUDED.standard_json,
+                    contract_path = EXCLUDED.contract_path,
+                    guid = EXCLUDED.guid`,
                 [
                     verification.address.toLowerCase(),
                     verification.name,
@@ -285,7 +2568,10 @@ export class DatabaseService {
                     verification.is_verified,
                     verification.license_type,
                     verification.verification_status,
-                    verification.verification_error
+                    verification.verification_error,
+                    verification.standard_json,
+                    verification.contract_path,
+                    verification.guid
                 ]
             );
         } catch (error) {
@@ -347,6 +2633,40 @@ export class DatabaseService {
         }
     }
 
+    /**
+     * Swaps the stored sources of a contract for a new set in one transaction,
+     * so files from an earlier submission do not linger.
+     */
+    async replaceContractSources(address: string, sources: ContractSource[]): Promise<void> {
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            await client.query('DELETE FROM contract_sources WHERE address = $1', [address.toLowerCase()]);
+            await this.insertRows(client, sources.map(source => [
+                source.address.toLowerCase(),
+                source.filename,
+                source.source_code,
+                source.compiler_version,
+                source.abi,
+                source.creation_bytecode,
+                source.deployed_bytecode,
+                source.is_primary
+            ]), values =>
+                `INSERT INTO contract_sources (
+                    address, filename, source_code, compiler_version,
+                    abi, creation_bytecode, deployed_bytecode, is_primary
+                ) VALUES ${values}`
+            );
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            logger.error('Failed to replace contract sources:', error);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
     async getContractSources(address: string): Promise<ContractSource[]> {
         try {
             const result = await this.pool.query<ContractSource>(
@@ -391,6 +2711,7 @@ export class DatabaseService {
     }
 
     async close(): Promise<void> {
+        unobservePool(this.pool);
         await this.pool.end();
     }
 }
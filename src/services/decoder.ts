@@ -0,0 +1,177 @@
+import { ethers } from 'ethers';
+import { DatabaseService, EventLog, Transaction } from './database';
+import { buildInterface, decodeCall, DecodedCall, DecodedEvent, decodeEvent, getSelector } from '../utils/abi-decoder';
+import { getIndexedImplementation } from '../utils/proxy-detector';
+
+interface CacheEntry<T> {
+    value: Promise<T>;
+    expires_at: number;
+}
+
+interface CachedDecoding<T> {
+    // The interface the result was decoded with; a newer one invalidates it
+    source: CacheEntry<ethers.utils.Interface | null>;
+    result: T | null;
+}
+
+// Contracts verified or upgraded and signatures imported meanwhile are picked up after this long
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_INTERFACES = 1000;
+const MAX_CACHED_SIGNATURES = 10000;
+const MAX_CACHED_DECODINGS = 20000;
+
+// Map iteration follows insertion order, so re-inserting on use keeps the least recently used first
+function touch<K, V>(cache: Map<K, V>, key: K, value: V, maxSize: number): void {
+    cache.delete(key);
+    cache.set(key, value);
+    if (cache.size > maxSize) {
+        cache.delete(cache.keys().next().value as K);
+    }
+}
+
+/**
+ * Returns the cache entry of each key, loading all missing or expired keys
+ * with one call to `load`, which answers in the order of the keys it is
+ * given. Failed loads are dropped so the next request tries again.
+ */
+function fromCache<T>(
+    cache: Map<string, CacheEntry<T>>,
+    keys: string[],
+    maxSize: number,
+    load: (keys: string[]) => Promise<T[]>
+): CacheEntry<T>[] {
+    const now = Date.now();
+    const entries = new Map<string, CacheEntry<T>>();
+    const missing: string[] = [];
+    for (const key of new Set(keys)) {
+        const cached = cache.get(key);
+        if (cached && cached.expires_at > now) {
+            touch(cache, key, cached, maxSize);
+            entries.set(key, cached);
+        } else {
+            missing.push(key);
+        }
+    }
+
+    if (missing.length > 0) {
+        const loaded = load(missing);
+        missing.forEach((key, i) => {
+            const entry: CacheEntry<T> = { value: loaded.then(values => values[i]), expires_at: now + CACHE_TTL_MS };
+            entry.value.catch(() => {
+                if (cache.get(key) === entry) {
+                    cache.delete(key);
+                }
+            });
+            touch(cache, key, entry, maxSize);
+            entries.set(key, entry);
+        });
+    }
+
+    return keys.map(key => entries.get(key)!);
+}
+
+/**
+ * Decodes transaction input and event logs for API responses. The verified ABI
+ * of the called or emitting contract is used, merged with its implementation's
+ * when the contract is a proxy; without one the well-known signatures and
+ * then the signature database are tried. Parsed ABIs, signature lookups and
+ * decoded results are kept in memory so that hot contracts are not re-parsed
+ * on every request.
+ */
+export class DecoderService {
+    private database: DatabaseService;
+    private interfaces: Map<string, CacheEntry<ethers.utils.Interface | null>>;
+    // Text signatures by selector or topic, best guess first
+    private signatures: Map<string, CacheEntry<string[]>>;
+    private calls: Map<string, CachedDecoding<DecodedCall>>;
+    private events: Map<string, CachedDecoding<DecodedEvent>>;
+
+    constructor(database: DatabaseService) {
+        this.database = database;
+        this.interfaces = new Map();
+        this.signatures = new Map();
+        this.calls = new Map();
+        this.events = new Map();
+    }
+
+    async decodeTransaction(transaction: Pick<Transaction, 'hash' | 'to_address' | 'input'>): Promise<DecodedCall | null> {
+        // Contract creations carry init code rather than a call
+        const selector = getSelector(transaction.input);
+        if (!transaction.to_address || !selector) return null;
+
+        return this.decodeCached(this.calls, transaction.hash.toLowerCase(), transaction.to_address, async contractInterface =>
+            decodeCall(contractInterface, transaction.input)
+                ?? decodeCall(null, transaction.input, await this.lookupSignatures(selector))
+        );
+    }
+
+    async decodeLogs(logs: EventLog[]): Promise<(DecodedEvent | null)[]> {
+        return Promise.all(logs.map(log =>
+            this.decodeCached(this.events, `${log.transaction_hash.toLowerCase()}:${log.log_index}`, log.address, async contractInterface =>
+                decodeEvent(contractInterface, log)
+                    ?? (log.topic0 ? decodeEvent(null, log, await this.lookupSignatures(log.topic0.toLowerCase())) : null)
+            )
+        ));
+    }
+
+    /**
+     * Best-guess signatures, e.g. `transfer(address,uint256)`, for the
+     * selectors of several transactions, looked up in the signature database
+     * together. Null where the selector is unknown or the transaction is not a
+     * call.
+     */
+    async guessMethods(transactions: Pick<Transaction, 'to_address' | 'input'>[]): Promise<(string | null)[]> {
+        const selectors = transactions.map(tx => tx.to_address ? getSelector(tx.input) : null);
+        const known = selectors.filter((selector): selector is string => selector !== null);
+        const entries = fromCache(this.signatures, known, MAX_CACHED_SIGNATURES, keys => this.loadSignatures(keys));
+        const candidates = new Map(await Promise.all(
+            entries.map(async (entry, i) => [known[i], await entry.value] as const)
+        ));
+        return selectors.map(selector => selector ? candidates.get(selector)?.[0] ?? null : null);
+    }
+
+    private async lookupSignatures(hash: string): Promise<string[]> {
+        const [entry] = fromCache(this.signatures, [hash], MAX_CACHED_SIGNATURES, keys => this.loadSignatures(keys));
+        return entry.value;
+    }
+
+    private async decodeCached<T>(
+        cache: Map<string, CachedDecoding<T>>,
+        key: string,
+        address: string,
+        decode: (contractInterface: ethers.utils.Interface | null) => Promise<T | null>
+    ): Promise<T | null> {
+        const [source] = fromCache(this.interfaces, [address.toLowerCase()], MAX_CACHED_INTERFACES, keys =>
+            Promise.all(keys.map(contract => this.loadInterface(contract)))
+        );
+        const cached = cache.get(key);
+        if (cached && cached.source === source) {
+            touch(cache, key, cached, MAX_CACHED_DECODINGS);
+            return cached.result;
+        }
+
+        const result = await decode(await source.value);
+        touch(cache, key, { source, result }, MAX_CACHED_DECODINGS);
+        return result;
+    }
+
+    private async loadInterface(address: string): Promise<ethers.utils.Interface | null> {
+        const [verification, implementation] = await Promise.all([
+            this.database.getContractVerification(address),
+            getIndexedImplementation(this.database, address)
+        ]);
+        const implementationVerification = implementation
+            ? await this.database.getContractVerification(implementation)
+            : null;
+
+        const abis = [verification, implementationVerification]
+            .filter(candidate => candidate?.is_verified && candidate.abi)
+            .map(candidate => candidate!.abi);
+        return buildInterface(abis);
+    }
+
+    private async loadSignatures(hashes: string[]): Promise<string[][]> {
+        const entries = await this.database.getSignatures(hashes);
+        return hashes.map(hash => entries.filter(entry => entry.hash === hash).map(entry => entry.signature));
+    }
+}
@@ -0,0 +1,407 @@
+import express, { Router } from 'express';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { DatabaseService, EventLog, HistoryFilter } from './database';
+import { BlockchainService } from './blockchain';
+import { DecoderService } from './decoder';
+import { submitVerification, VerificationInputError } from '../utils/contract-verifier';
+import { resolveProxy } from '../utils/proxy-detector';
+import config from '../config';
+
+// Etherscan caps page * offset at 10000 records
+const MAX_RECORDS = 10000;
+const MAX_LOGS = 1000;
+// Block numbers are stored as INTEGER
+const MAX_BLOCK_NUMBER = 2 ** 31 - 1;
+
+type Params = Record<string, string | undefined>;
+
+interface EtherscanResponse {
+    status: '0' | '1';
+    message: string;
+    result: any;
+}
+
+/**
+ * Thrown by action handlers for client errors; becomes a `NOTOK` envelope.
+ */
+class EtherscanError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EtherscanError';
+    }
+}
+
+function ok(result: any): EtherscanResponse {
+    return { status: '1', message: 'OK', result };
+}
+
+function notOk(result: any, message: string = 'NOTOK'): EtherscanResponse {
+    return { status: '0', message, result };
+}
+
+// Empty lists are reported with status 0, like Etherscan does
+function list(results: any[], emptyMessage: string): EtherscanResponse {
+    return results.length > 0 ? ok(results) : notOk([], emptyMessage);
+}
+
+function requireAddress(params: Params, name: string = 'address'): string {
+    const address = params[name];
+    if (!address || !ethers.utils.isAddress(address)) {
+        throw new EtherscanError(`Error! Invalid ${name} format`);
+    }
+    return address;
+}
+
+// Decimal block number, or undefined when absent or 'latest'
+function parseBlockNumber(params: Params, name: string): number | undefined {
+    const value = params[name];
+    if (value === undefined || value === '' || value === 'latest') return undefined;
+
+    const blockNumber = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (!(blockNumber <= MAX_BLOCK_NUMBER)) {
+        throw new EtherscanError(`Error! Invalid ${name}`);
+    }
+    return blockNumber;
+}
+
+function parseHistoryFilter(params: Params): HistoryFilter {
+    const page = Math.max(parseInt(params.page || '1') || 1, 1);
+    const offset = Math.max(parseInt(params.offset || '') || MAX_RECORDS, 1);
+    if (page * offset > MAX_RECORDS) {
+        throw new EtherscanError(`Result window is too large, PageNo x Offset size must be less than or equal to ${MAX_RECORDS}`);
+    }
+
+    return {
+        start_block: parseBlockNumber(params, 'startblock'),
+        end_block: parseBlockNumber(params, 'endblock'),
+        sort: params.sort === 'desc' ? 'desc' : 'asc',
+        limit: offset,
+        offset: (page - 1) * offset
+    };
+}
+
+function toUnixSeconds(value: Date | string): string {
+    return Math.floor(new Date(value).getTime() / 1000).toString();
+}
+
+function toHexQuantity(value: number | string | null | undefined): string {
+    return ethers.BigNumber.from(value || 0).toHexString();
+}
+
+/**
+ * Etherscan-compatible `/api?module=...&action=...` endpoint, so tooling that
+ * speaks the Etherscan API (hardhat-verify, Foundry, wallets) works against
+ * this indexer. Parameters are read from the query string and, for POST, the
+ * JSON or form-encoded body.
+ */
+export function setupEtherscanRoutes(database: DatabaseService, blockchain: BlockchainService, decoder: DecoderService): Router {
+    const router = Router();
+    router.use(express.urlencoded({ extended: true, limit: config.api.body_limit }));
+
+    const actions: Record<string, Record<string, (params: Params) => Promise<EtherscanResponse>>> = {
+        account: {
+            txlist: async params => {
+                const address = ethers.utils.getAddress(requireAddress(params));
+                const [transactions, latestBlock] = await Promise.all([
+                    database.getAddressTransactionHistory(address, parseHistoryFilter(params)),
+                    database.getLatestBlock()
+                ]);
+                const signatures = await decoder.guessMethods(transactions);
+
+                return list(transactions.map((tx, i) => ({
+                    blockNumber: tx.block_number.toString(),
+                    timeStamp: toUnixSeconds(tx.created_at),
+                    hash: tx.hash,
+                    nonce: tx.nonce.toString(),
+                    blockHash: tx.block_hash,
+                    transactionIndex: tx.transaction_index.toString(),
+                    from: tx.from_address.toLowerCase(),
+                    to: tx.to_address?.toLowerCase() || '',
+                    value: tx.value,
+                    gas: tx.gas_used,
+                    gasPrice: tx.gas_price,
+                    isError: tx.status ? '0' : '1',
+                    txreceipt_status: tx.status ? '1' : '0',
+                    input: tx.input,
+                    contractAddress: tx.contract_address?.toLowerCase() || '',
+                    cumulativeGasUsed: tx.cumulative_gas_used || '',
+                    gasUsed: tx.gas_used,
+                    confirmations: ((latestBlock?.number ?? tx.block_number) - tx.block_number + 1).toString(),
+                    methodId: tx.input.length >= 10 ? tx.input.slice(0, 10) : '0x',
+                    functionName: signatures[i] || ''
+                })), 'No transactions found');
+            },
+
+            txlistinternal: async params => {
+                if (!params.address && !params.txhash) {
+                    throw new EtherscanError('Error! Missing address or txhash');
+                }
+                const target = {
+                    address: params.address ? requireAddress(params) : undefined,
+                    transaction_hash: params.txhash
+                };
+
+                const internals = await database.getInternalTransactionHistory(target, parseHistoryFilter(params));
+                return list(internals.map(internal => {
+                    const isCreate = internal.type === 'create' || internal.type === 'create2';
+                    return {
+                        blockNumber: internal.block_number.toString(),
+                        timeStamp: toUnixSeconds(internal.timestamp),
+                        hash: internal.transaction_hash,
+                        from: internal.from_address,
+                        to: isCreate ? '' : internal.to_address || '',
+                        value: internal.value,
+                        contractAddress: isCreate ? internal.to_address || '' : '',
+                        input: internal.input,
+                        type: internal.type,
+                        gas: internal.gas,
+                        gasUsed: internal.gas_used,
+                        traceId: internal.trace_address.join('_'),
+                        isError: internal.error ? '1' : '0',
+                        errCode: internal.error || ''
+                    };
+                }), 'No transactions found');
+            },
+
+            tokentx: async params => {
+                if (!params.address && !params.contractaddress) {
+                    throw new EtherscanError('Error! Missing address or contractaddress');
+                }
+                const target = {
+                    address: params.address ? requireAddress(params) : undefined,
+                    token_address: params.contractaddress ? requireAddress(params, 'contractaddress') : undefined
+                };
+
+                const [transfers, latestBlock] = await Promise.all([
+                    database.getTokenTransferHistory(target, parseHistoryFilter(params)),
+                    database.getLatestBlock()
+                ]);
+                return list(transfers.map(transfer => ({
+                    blockNumber: transfer.block_number.toString(),
+                    timeStamp: toUnixSeconds(transfer.timestamp),
+                    hash: transfer.transaction_hash,
+                    nonce: transfer.nonce.toString(),
+                    blockHash: transfer.block_hash,
+                    from: transfer.from_address,
+                    contractAddress: transfer.token_address,
+                    to: transfer.to_address,
+                    value: transfer.value,
+                    tokenName: transfer.token_name || '',
+                    tokenSymbol: transfer.token_symbol || '',
+                    tokenDecimal: transfer.token_decimals?.toString() || '',
+                    transactionIndex: transfer.transaction_index.toString(),
+                    gas: transfer.gas_used,
+                    gasPrice: transfer.gas_price,
+                    gasUsed: transfer.gas_used,
+                    cumulativeGasUsed: transfer.cumulative_gas_used || '',
+                    input: 'deprecated',
+                    confirmations: ((latestBlock?.number ?? transfer.block_number) - transfer.block_number + 1).toString()
+                })), 'No transactions found');
+            },
+
+            balance: async params => {
+                const address = requireAddress(params);
+                return ok(await blockchain.getBalance(address, params.tag || 'latest'));
+            }
+        },
+
+        contract: {
+            getabi: async params => {
+                const verification = await database.getContractVerification(requireAddress(params));
+                if (!verification?.is_verified) {
+                    return notOk('Contract source code not verified');
+                }
+                return ok(verification.abi);
+            },
+
+            getsourcecode: async params => {
+                const address = requireAddress(params);
+                const [verification, code] = await Promise.all([
+                    database.getContractVerification(address),
+                    blockchain.getCode(address)
+                ]);
+                const proxy = await resolveProxy(database, blockchain, address, code);
+                const proxyFields = {
+                    Proxy: proxy ? '1' : '0',
+                    Implementation: proxy?.implementation || ''
+                };
+
+                if (!verification?.is_verified) {
+                    return ok([{
+                        SourceCode: '',
+                        ABI: 'Contract source code not verified',
+                        ContractName: '',
+                        CompilerVersion: '',
+                        OptimizationUsed: '',
+                        Runs: '',
+                        ConstructorArguments: '',
+                        EVMVersion: '',
+                        Library: '',
+                        LicenseType: '',
+                        ...proxyFields,
+                        SwarmSource: ''
+                    }]);
+                }
+
+                const input = verification.standard_json ? JSON.parse(verification.standard_json) : null;
+                const libraries = Object.values<Record<string, string>>(input?.settings?.libraries || {})
+                    .flatMap(entries => Object.entries(entries).map(([name, address]) => `${name}:${address}`));
+
+                return ok([{
+                    // Etherscan wraps Standard JSON Input in double braces
+                    SourceCode: input ? `{${verification.standard_json}}` : verification.source_code,
+                    ABI: verification.abi,
+                    ContractName: verification.name,
+                    CompilerVersion: verification.compiler_version,
+                    OptimizationUsed: verification.optimization_used ? '1' : '0',
+                    Runs: verification.optimization_runs?.toString() || '',
+                    ConstructorArguments: verification.constructor_arguments || '',
+                    EVMVersion: input?.settings?.evmVersion || 'Default',
+                    Library: [...new Set(libraries)].join(';'),
+                    LicenseType: verification.license_type || '',
+                    ...proxyFields,
+                    SwarmSource: ''
+                }]);
+            },
+
+            verifysourcecode: async params => {
+                if (!config.features.verification) {
+                    return notOk('Contract verification is disabled');
+                }
+                const address = requireAddress(params, 'contractaddress');
+                const existing = await database.getContractVerification(address);
+                if (existing?.is_verified) {
+                    return notOk('Contract source code already verified');
+                }
+
+                const isStandardJson = params.codeformat === 'solidity-standard-json-input';
+                const libraries: Record<string, string> = {};
+                for (let i = 1; i <= 10; i++) {
+                    const name = params[`libraryname${i}`];
+                    const libraryAddress = params[`libraryaddress${i}`];
+                    if (name && libraryAddress) {
+                        libraries[name] = libraryAddress;
+                    }
+                }
+
+                try {
+                    const verification = await submitVerification(database, blockchain, {
+                        address,
+                        name: params.contractname || '',
+                        compiler_version: params.compilerversion || '',
+                        standard_json: isStandardJson ? params.sourceCode : undefined,
+                        source_code: isStandardJson ? undefined : params.sourceCode,
+                        optimization_used: params.optimizationUsed === '1',
+                        optimization_runs: parseInt(params.runs || '200'),
+                        evm_version: params.evmversion && params.evmversion !== 'default' ? params.evmversion : undefined,
+                        libraries: Object.keys(libraries).length > 0 ? libraries : undefined,
+                        // Etherscan's parameter name is misspelled; accept both
+                        constructor_arguments: params.constructorArguements || params.constructorArguments,
+                        license_type: params.licenseType
+                    });
+                    return ok(verification.guid);
+                } catch (error) {
+                    if (error instanceof VerificationInputError) {
+                        throw new EtherscanError(error.message);
+                    }
+                    throw error;
+                }
+            },
+
+            checkverifystatus: async params => {
+                const verification = params.guid ? await database.getContractVerificationByGuid(params.guid) : null;
+                if (!verification) {
+                    return notOk('Unknown UID');
+                }
+
+                switch (verification.verification_status) {
+                    case 'success':
+                        return ok('Pass - Verified');
+                    case 'failure':
+                        return notOk(`Fail - Unable to verify. ${verification.verification_error || ''}`.trim());
+                    default:
+                        return notOk('Pending in queue');
+                }
+            }
+        },
+
+        block: {
+            getblocknobytime: async params => {
+                const time = /^\d+$/.test(params.timestamp || '') ? new Date(parseInt(params.timestamp!, 10) * 1000) : null;
+                if (!time || isNaN(time.getTime())) {
+                    throw new EtherscanError('Error! Invalid timestamp');
+                }
+
+                const closest = params.closest === 'after' ? 'after' : 'before';
+                const blockNumber = await database.getBlockNumberByTime(time, closest);
+                if (blockNumber === null) {
+                    return notOk('Error! No closest block found');
+                }
+                return ok(blockNumber.toString());
+            }
+        },
+
+        logs: {
+            getLogs: async params => {
+                const topics: (string[] | null)[] = [0, 1, 2, 3].map(i => params[`topic${i}`] ? [params[`topic${i}`]!] : null);
+                const operators = Object.keys(params).filter(key => /^topic\d_\d_opr$/.test(key));
+                if (operators.some(key => params[key] !== 'and')) {
+                    throw new EtherscanError('Error! Only the "and" topic operator is supported');
+                }
+
+                const page = Math.max(parseInt(params.page || '1') || 1, 1);
+                const offset = Math.min(Math.max(parseInt(params.offset || '') || MAX_LOGS, 1), MAX_LOGS);
+                const logs = await database.getLogs({
+                    addresses: params.address ? [requireAddress(params)] : undefined,
+                    topics,
+                    from_block: parseBlockNumber(params, 'fromBlock'),
+                    to_block: parseBlockNumber(params, 'toBlock'),
+                    limit: offset,
+                    offset: (page - 1) * offset
+                });
+
+                return list(await formatLogs(database, logs), 'No records found');
+            }
+        }
+    };
+
+    router.all('/', async (req, res) => {
+        const params: Params = { ...req.query, ...(req.body || {}) } as Params;
+        const handler = actions[params.module || '']?.[params.action || ''];
+
+        if (!handler) {
+            res.json(notOk('Error! Missing Or invalid Module name or Action name'));
+            return;
+        }
+
+        try {
+            res.json(await handler(params));
+        } catch (error: unknown) {
+            if (error instanceof EtherscanError) {
+                res.json(notOk(error.message));
+                return;
+            }
+            logger.error(`Etherscan API error (${params.module}.${params.action}):`, error);
+            res.status(500).json(notOk('Error! Internal server error'));
+        }
+    });
+
+    return router;
+}
+
+async function formatLogs(database: DatabaseService, logs: EventLog[]) {
+    const blocks = await database.getBlocksByNumbers([...new Set(logs.map(log => log.block_number))]);
+    const timestamps = new Map(blocks.map(block => [block.number, block.timestamp]));
+
+    return logs.map(log => ({
+        address: log.address,
+        topics: [log.topic0, log.topic1, log.topic2, log.topic3].filter(topic => topic),
+        data: log.data,
+        blockNumber: toHexQuantity(log.block_number),
+        timeStamp: toHexQuantity(timestamps.has(log.block_number) ? toUnixSeconds(timestamps.get(log.block_number)!) : 0),
+        logIndex: toHexQuantity(log.log_index),
+        transactionHash: log.transaction_hash,
+        transactionIndex: toHexQuantity(log.transaction_index)
+    }));
+}
@@ -0,0 +1,189 @@
+import { Router } from 'express';
+import { logger } from '../utils/logger';
+import { DatabaseService, Block, FeeHistoryTransaction } from './database';
+import { calculateNextBaseFee, gasUsedRatio, median, priorityFeePercentiles } from '../utils/fee-math';
+
+const DEFAULT_ORACLE_BLOCKS = 20;
+// Same cap as geth's eth_feeHistory
+const MAX_HISTORY_BLOCKS = 1024;
+const MAX_REWARD_PERCENTILES = 100;
+
+const DEFAULT_TOP_CONTRACTS_HOURS = 24;
+const MAX_TOP_CONTRACTS_HOURS = 24 * 30;
+const MAX_TOP_CONTRACTS = 100;
+
+// Percentiles of the priority fees paid in each block that the suggestions are taken from
+const ORACLE_PERCENTILES = { slow: 25, standard: 50, fast: 90 };
+
+function groupByBlock(transactions: FeeHistoryTransaction[]): Map<number, FeeHistoryTransaction[]> {
+    const grouped = new Map<number, FeeHistoryTransaction[]>();
+    for (const tx of transactions) {
+        const list = grouped.get(tx.block_number) || [];
+        list.push(tx);
+        grouped.set(tx.block_number, list);
+    }
+    return grouped;
+}
+
+function parseCount(value: unknown, fallback: number, max: number): number | null {
+    if (value === undefined || value === '') return fallback;
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 && parsed <= max ? parsed : null;
+}
+
+export function setupGasRoutes(database: DatabaseService): Router {
+    const router = Router();
+
+    // Slow/standard/fast fee suggestions from the priority fees paid over recent blocks
+    router.get('/oracle', async (req, res) => {
+        try {
+            const blockCount = parseCount(req.query.blocks, DEFAULT_ORACLE_BLOCKS, MAX_HISTORY_BLOCKS);
+            if (blockCount === null) {
+                res.status(400).json({ error: `blocks must be between 1 and ${MAX_HISTORY_BLOCKS}` });
+                return;
+            }
+
+            const latest = await database.getLatestBlock();
+            if (!latest) {
+                res.status(404).json({ error: 'No blocks indexed yet' });
+                return;
+            }
+
+            const { blocks, transactions } = await database.getFeeHistoryData(
+                Math.max(latest.number - blockCount + 1, 0),
+                latest.number
+            );
+            const byBlock = groupByBlock(transactions);
+            const levels = Object.entries(ORACLE_PERCENTILES);
+
+            // Empty blocks say nothing about what it takes to get included
+            const samples = blocks
+                .filter(block => byBlock.has(block.number))
+                .map(block => priorityFeePercentiles(block, byBlock.get(block.number)!, levels.map(([, percentile]) => percentile)));
+
+            const nextBaseFee = calculateNextBaseFee(latest);
+            const suggestions = Object.fromEntries(levels.map(([level], i) => {
+                const priorityFee = median(samples.map(sample => sample[i]));
+                return [level, {
+                    max_priority_fee_per_gas: priorityFee.toString(),
+                    // Leaves room for the base fee to double before the transaction is included
+                    max_fee_per_gas: ((nextBaseFee ?? 0n) * 2n + priorityFee).toString()
+                }];
+            }));
+
+            res.json({
+                latest_block: latest.number,
+                base_fee_per_gas: latest.base_fee_per_gas ?? null,
+                next_base_fee_per_gas: nextBaseFee?.toString() ?? null,
+                blocks_sampled: blocks.length,
+                blocks_with_transactions: samples.length,
+                ...suggestions
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting gas oracle:', error);
+            res.status(500).json({ error: 'Failed to get gas oracle', message: errorMessage });
+        }
+    });
+
+    // Base fees, gas utilisation and priority fee percentiles per block, like eth_feeHistory
+    router.get('/fee-history', async (req, res) => {
+        try {
+            const blockCount = parseCount(req.query.block_count, DEFAULT_ORACLE_BLOCKS, MAX_HISTORY_BLOCKS);
+            if (blockCount === null) {
+                res.status(400).json({ error: `block_count must be between 1 and ${MAX_HISTORY_BLOCKS}` });
+                return;
+            }
+
+            const percentiles = typeof req.query.reward_percentiles === 'string' && req.query.reward_percentiles !== ''
+                ? req.query.reward_percentiles.split(',').map(Number)
+                : [];
+            const validPercentiles = percentiles.length <= MAX_REWARD_PERCENTILES && percentiles.every((value, i) =>
+                !isNaN(value) && value >= 0 && value <= 100 && (i === 0 || value >= percentiles[i - 1])
+            );
+            if (!validPercentiles) {
+                res.status(400).json({ error: 'reward_percentiles must be increasing values between 0 and 100' });
+                return;
+            }
+
+            const latest = await database.getLatestBlock();
+            if (!latest) {
+                res.status(404).json({ error: 'No blocks indexed yet' });
+                return;
+            }
+
+            const newest = req.query.newest_block === undefined || req.query.newest_block === 'latest'
+                ? latest.number
+                : Number(req.query.newest_block);
+            if (!Number.isInteger(newest) || newest < 0 || newest > latest.number) {
+                res.status(400).json({ error: 'Invalid newest_block' });
+                return;
+            }
+
+            const { blocks, transactions } = await database.getFeeHistoryData(Math.max(newest - blockCount + 1, 0), newest);
+            if (blocks.length === 0) {
+                res.status(404).json({ error: 'Blocks not found' });
+                return;
+            }
+            const byBlock = groupByBlock(transactions);
+            const newestBlock: Block = blocks[blocks.length - 1];
+
+            res.json({
+                oldest_block: blocks[0].number,
+                // One entry more than blocks: the base fee of the block after the newest
+                base_fee_per_gas: [
+                    ...blocks.map(block => block.base_fee_per_gas ?? '0'),
+                    calculateNextBaseFee(newestBlock)?.toString() ?? '0'
+                ],
+                gas_used_ratio: blocks.map(gasUsedRatio),
+                ...(percentiles.length > 0 ? {
+                    reward: blocks.map(block =>
+                        priorityFeePercentiles(block, byBlock.get(block.number) || [], percentiles).map(fee => fee.toString())
+                    )
+                } : {})
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting fee history:', error);
+            res.status(500).json({ error: 'Failed to get fee history', message: errorMessage });
+        }
+    });
+
+    // Contracts whose calls used the most gas over the last `hours`
+    router.get('/top-contracts', async (req, res) => {
+        try {
+            const hours = parseCount(req.query.hours, DEFAULT_TOP_CONTRACTS_HOURS, MAX_TOP_CONTRACTS_HOURS);
+            const limit = parseCount(req.query.limit, 10, MAX_TOP_CONTRACTS);
+            if (hours === null || limit === null) {
+                res.status(400).json({ error: `hours must be between 1 and ${MAX_TOP_CONTRACTS_HOURS} and limit between 1 and ${MAX_TOP_CONTRACTS}` });
+                return;
+            }
+
+            const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+            const fromBlock = await database.getBlockNumberByTime(since, 'after');
+            const [consumers, totalGas] = fromBlock === null
+                ? [[], 0n]
+                : await Promise.all([
+                    database.getTopGasConsumers(fromBlock, limit),
+                    database.getGasUsedSince(fromBlock).then(BigInt)
+                ]);
+
+            res.json({
+                hours,
+                from_block: fromBlock,
+                total_gas_used: totalGas.toString(),
+                results: consumers.map(consumer => ({
+                    ...consumer,
+                    // Share of all gas used in the window
+                    gas_share: totalGas > 0n ? Number(BigInt(consumer.gas_used) * 10000n / totalGas) / 10000 : 0
+                }))
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting top gas contracts:', error);
+            res.status(500).json({ error: 'Failed to get top gas contracts', message: errorMessage });
+        }
+    });
+
+    return router;
+}
@@ -1,19 +1,51 @@
+import { EventEmitter } from 'events';
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
-import { BlockchainService } from './blockchain';
-import { DatabaseService, Block, Transaction } from './database';
+import { BlockchainService, BlockWithTransactions } from './blockchain';
+import { DatabaseService, Block, Transaction, EventLog, IndexedBlock, InternalTransaction, DeployedContract } from './database';
+import { NftMetadataService } from './nft-metadata';
+import { blockProcessingSeconds, blocksProcessed, chainHeadBlock, indexedHeadBlock, indexerLagBlocks, transactionsProcessed } from '../utils/metrics';
+import { decodeErc20Transfers, decodeNftTransfers } from '../utils/token-decoder';
+import { decodeProxyUpgrades, detectProxy } from '../utils/proxy-detector';
+import config from '../config';
 
-export class IndexerService {
+export interface ReorgEvent {
+    common_ancestor: number;
+    depth: number;
+    orphaned_hashes: string[];
+}
+
+/**
+ * Events emitted once indexed data is committed; `reorg` fires after orphaned
+ * blocks are removed and before their replacements are re-emitted as `block`.
+ */
+export interface IndexerEvents {
+    block: [IndexedBlock];
+    reorg: [ReorgEvent];
+}
+
+export class IndexerService extends EventEmitter<IndexerEvents> {
     private blockchain: BlockchainService;
     private database: DatabaseService;
     private isIndexing: boolean;
+    private isBackfilling: boolean;
+    private isFollowingHead: boolean;
     private lastProcessedBlock: number;
+    private chainHead: number;
+    private knownTokens: Set<string>;
+    private nftMetadata: NftMetadataService;
 
     constructor(blockchain: BlockchainService, database: DatabaseService) {
+        super();
         this.blockchain = blockchain;
         this.database = database;
         this.isIndexing = false;
+        this.isBackfilling = false;
+        this.isFollowingHead = false;
         this.lastProcessedBlock = 0;
+        this.chainHead = 0;
+        this.knownTokens = new Set();
+        this.nftMetadata = new NftMetadataService(blockchain, database);
     }
 
     async start(): Promise<void> {
@@ -29,16 +61,18 @@ export class IndexerService {
                 throw new Error('Not connected to blockchain');
             }
 
-            // Get the last processed block from database
+            // Resume after the last stored block, or begin at the configured start block
             const lastBlock = await this.database.getLatestBlock();
-            this.lastProcessedBlock = lastBlock?.number || 0;
+            this.lastProcessedBlock = lastBlock ? lastBlock.number : config.indexer.start_block - 1;
+            this.updateHeadMetrics();
 
             // Start indexing
             this.isIndexing = true;
-            logger.info(`Starting indexer from block ${this.lastProcessedBlock}`);
+            logger.info('Starting indexer', { block_number: this.lastProcessedBlock });
 
             // Subscribe to new blocks
             this.blockchain.subscribeToNewBlocks(this.handleNewBlock.bind(this));
+            this.nftMetadata.start();
 
             // Start processing historical blocks
             await this.processHistoricalBlocks();
@@ -54,95 +88,403 @@ export class IndexerService {
         }
 
         this.isIndexing = false;
-        this.blockchain.unsubscribeFromNewBlocks(this.handleNewBlock.bind(this));
+        this.blockchain.unsubscribeFromNewBlocks();
+        this.nftMetadata.stop();
         logger.info('Indexer stopped');
     }
 
     private async handleNewBlock(blockNumber: number): Promise<void> {
-        if (!this.isIndexing) return;
+        // The backfill loop picks up new blocks itself; overlapping runs would race on lastProcessedBlock
+        this.setChainHead(blockNumber);
+        if (!this.isIndexing || this.isBackfilling || this.isFollowingHead) return;
 
+        this.isFollowingHead = true;
         try {
-            await this.processBlock(blockNumber);
+            // Index everything up to the announced head so a missed notification leaves no gap
+            const confirmedHead = blockNumber - config.indexer.confirmations;
+            for (let next = this.lastProcessedBlock + 1; next <= confirmedHead && this.isIndexing; next++) {
+                await this.processBlock(next);
+            }
         } catch (error) {
-            logger.error(`Failed to process block ${blockNumber}:`, error);
+            logger.error('Failed to follow chain head', { block_number: blockNumber }, error);
+        } finally {
+            this.isFollowingHead = false;
         }
     }
 
     private async processHistoricalBlocks(): Promise<void> {
-        while (this.isIndexing) {
-            try {
-                const latestBlockNumber = await this.blockchain.getLatestBlockNumber();
-                const nextBlock = this.lastProcessedBlock + 1;
-
-                if (nextBlock > latestBlockNumber) {
-                    // Caught up with the chain
-                    logger.info('Finished processing historical blocks');
-                    break;
+        this.isBackfilling = true;
+        try {
+            while (this.isIndexing) {
+                try {
+                    const latestBlockNumber = await this.blockchain.getLatestBlockNumber();
+                    this.setChainHead(latestBlockNumber);
+                    const confirmedHead = latestBlockNumber - config.indexer.confirmations;
+                    const nextBlock = this.lastProcessedBlock + 1;
+
+                    if (nextBlock > confirmedHead) {
+                        // Caught up with the chain
+                        logger.info('Finished processing historical blocks');
+                        break;
+                    }
+
+                    await this.backfillRange(nextBlock, confirmedHead);
+                } catch (error) {
+                    logger.error('Error processing historical blocks:', error);
+                    // Wait before retrying
+                    await new Promise(resolve => setTimeout(resolve, 5000));
                 }
+            }
+        } finally {
+            this.isBackfilling = false;
+        }
+    }
+
+    /**
+     * Fetches batches of `blocks_per_batch` blocks with up to `workers` batches
+     * in flight, but commits them strictly in order so `lastProcessedBlock`
+     * only ever moves over fully stored blocks.
+     */
+    private async backfillRange(fromBlock: number, toBlock: number): Promise<void> {
+        const inFlight: Promise<IndexedBlock[]>[] = [];
+        let nextToFetch = fromBlock;
+
+        const schedule = () => {
+            while (inFlight.length < config.indexer.workers && nextToFetch <= toBlock) {
+                const lastInBatch = Math.min(nextToFetch + config.indexer.blocks_per_batch - 1, toBlock);
+                const blockNumbers = Array.from({ length: lastInBatch - nextToFetch + 1 }, (_, i) => nextToFetch + i);
+                nextToFetch = lastInBatch + 1;
+
+                const batch = this.fetchBlocks(blockNumbers);
+                // Errors surface when the batch is awaited in order; this only prevents an unhandled rejection
+                batch.catch(() => undefined);
+                inFlight.push(batch);
+            }
+        };
 
-                await this.processBlock(nextBlock);
-            } catch (error) {
-                logger.error('Error processing historical blocks:', error);
-                // Wait before retrying
-                await new Promise(resolve => setTimeout(resolve, 5000));
+        schedule();
+        while (inFlight.length > 0 && this.isIndexing) {
+            const batch = await inFlight.shift()!;
+            for (const data of batch) {
+                await this.commitBlock(data);
             }
+            schedule();
         }
     }
 
     private async processBlock(blockNumber: number): Promise<void> {
-        try {
-            const blockWithTxs = await this.blockchain.getBlockWithTransactions(blockNumber);
-
-            // Prepare block data
-            const block: Block = {
-                number: blockNumber,
-                hash: blockWithTxs.hash,
-                parent_hash: blockWithTxs.parentHash,
-                timestamp: new Date(blockWithTxs.timestamp * 1000),
-                transactions_count: blockWithTxs.transactions.length,
-                gas_used: blockWithTxs.gasUsed.toString(),
-                gas_limit: blockWithTxs.gasLimit.toString(),
-                base_fee_per_gas: blockWithTxs.baseFeePerGas?.toString(),
-            };
-
-            // Insert block
-            await this.database.insertBlock(block);
-
-            // Process transactions
-            for (const tx of blockWithTxs.transactions) {
-                const receipt = await this.blockchain.getTransactionReceipt(tx.hash);
-                if (!receipt) continue;
-
-                const transaction: Transaction = {
-                    hash: tx.hash,
+        const [data] = await this.fetchBlocks([blockNumber]);
+        await this.commitBlock(data);
+    }
+
+    /**
+     * Downloads blocks and receipts with batched RPC calls and turns them into
+     * rows. Nothing is written here, so batches can be fetched in parallel.
+     */
+    private async fetchBlocks(blockNumbers: number[]): Promise<IndexedBlock[]> {
+        const blocks = await this.blockchain.getBlocksWithTransactions(blockNumbers);
+        const [receipts, traces] = await Promise.all([
+            this.blockchain.getBlockReceipts(blocks),
+            this.blockchain.traceBlocks(blocks)
+        ]);
+        const data = blocks.map((block, i) => this.buildBlockData(block, receipts, traces[i]));
+
+        // Runtime code hashes of new contracts, read at their creation block
+        const contracts = data.flatMap(item => item.contracts);
+        if (contracts.length > 0) {
+            const codes = await this.blockchain.getCodes(contracts.map(contract => ({
+                address: contract.address,
+                blockNumber: contract.block_number
+            })));
+            contracts.forEach((contract, i) => {
+                contract.runtime_code_hash = codes[i] && codes[i] !== '0x' ? ethers.utils.keccak256(codes[i]) : null;
+            });
+
+            // Proxies set up by their constructor are recognised as they are deployed
+            const detections = await Promise.all(contracts.map((contract, i) => contract.runtime_code_hash
+                ? detectProxy(this.blockchain, contract.address, codes[i], contract.block_number)
+                : null
+            ));
+            const blocksByNumber = new Map(data.map(item => [item.block.number, item]));
+            contracts.forEach((contract, i) => {
+                const detection = detections[i];
+                if (detection) {
+                    blocksByNumber.get(contract.block_number)!.proxies.push({
+                        address: contract.address.toLowerCase(),
+                        ...detection,
+                        block_number: contract.block_number,
+                        detected_at: new Date()
+                    });
+                }
+            });
+        }
+
+        return data;
+    }
+
+    private buildBlockData(
+        blockWithTxs: BlockWithTransactions,
+        receipts: Map<string, ethers.providers.TransactionReceipt>,
+        internalTransactions: InternalTransaction[]
+    ): IndexedBlock {
+        const blockNumber = blockWithTxs.number;
+        const block: Block = {
+            number: blockNumber,
+            hash: blockWithTxs.hash,
+            parent_hash: blockWithTxs.parentHash,
+            timestamp: new Date(blockWithTxs.timestamp * 1000),
+            transactions_count: blockWithTxs.transactions.length,
+            gas_used: blockWithTxs.gasUsed.toString(),
+            gas_limit: blockWithTxs.gasLimit.toString(),
+            base_fee_per_gas: blockWithTxs.baseFeePerGas?.toString(),
+        };
+
+        const transactions: Transaction[] = [];
+        const logs: EventLog[] = [];
+        const contracts: DeployedContract[] = [];
+        for (const tx of blockWithTxs.transactions) {
+            const receipt = receipts.get(tx.hash.toLowerCase());
+            if (!receipt) {
+                throw new Error(`Receipt for transaction ${tx.hash} in block ${blockNumber} not found`);
+            }
+
+            transactions.push({
+                hash: tx.hash,
+                block_number: blockNumber,
+                from_address: tx.from,
+                to_address: tx.to || undefined,
+                value: tx.value.toString(),
+                // The price actually paid; for EIP-1559 transactions it depends on the base fee
+                gas_price: (receipt.effectiveGasPrice ?? tx.gasPrice)?.toString() || '0',
+                gas_used: receipt.gasUsed.toString(),
+                input: tx.data,
+                status: receipt.status === 1,
+                transaction_index: receipt.transactionIndex,
+                nonce: tx.nonce,
+                created_at: block.timestamp.toISOString(),
+                cumulative_gas_used: receipt.cumulativeGasUsed.toString(),
+                contract_address: receipt.contractAddress || undefined
+            });
+
+            if (receipt.contractAddress && receipt.status === 1) {
+                contracts.push({
+                    address: receipt.contractAddress,
+                    creator_address: tx.from,
+                    creation_transaction_hash: tx.hash,
+                    block_number: blockNumber,
+                    creation_type: 'transaction',
+                    creation_bytecode_hash: ethers.utils.keccak256(tx.data),
+                    runtime_code_hash: null,
+                    created_at: block.timestamp
+                });
+            }
+
+            logs.push(...receipt.logs.map(log => ({
+                transaction_hash: tx.hash,
+                log_index: log.logIndex,
+                block_number: blockNumber,
+                transaction_index: receipt.transactionIndex,
+                address: log.address,
+                topic0: log.topics[0],
+                topic1: log.topics[1],
+                topic2: log.topics[2],
+                topic3: log.topics[3],
+                data: log.data
+            })));
+        }
+
+        // Contracts deployed by other contracts only show up in traces
+        const reverted = new Set(transactions.filter(tx => !tx.status).map(tx => tx.hash));
+        for (const internal of internalTransactions) {
+            const isCreate = internal.type === 'create' || internal.type === 'create2';
+            if (isCreate && internal.to_address && !internal.error && !reverted.has(internal.transaction_hash)) {
+                contracts.push({
+                    address: internal.to_address,
+                    creator_address: internal.from_address,
+                    creation_transaction_hash: internal.transaction_hash,
                     block_number: blockNumber,
-                    from_address: tx.from,
-                    to_address: tx.to || undefined,
-                    value: tx.value.toString(),
-                    gas_price: tx.gasPrice?.toString() || '0',
-                    gas_used: receipt.gasUsed.toString(),
-                    input: tx.data,
-                    status: receipt.status === 1,
-                    transaction_index: receipt.transactionIndex,
-                    nonce: tx.nonce,
-                    created_at: new Date(blockWithTxs.timestamp * 1000).toISOString()
-                };
+                    creation_type: internal.type,
+                    creation_bytecode_hash: ethers.utils.keccak256(internal.input),
+                    runtime_code_hash: null,
+                    created_at: block.timestamp
+                });
+            }
+        }
+
+        return {
+            block,
+            transactions,
+            logs,
+            token_transfers: config.features.tokens ? decodeErc20Transfers(logs, block.timestamp) : [],
+            nft_transfers: config.features.tokens ? decodeNftTransfers(logs, block.timestamp) : [],
+            internal_transactions: internalTransactions,
+            contracts,
+            proxies: [],
+            proxy_upgrades: decodeProxyUpgrades(logs, block.timestamp)
+        };
+    }
 
-                await this.database.insertTransaction(transaction);
+    /**
+     * Stores a fetched block after checking it still extends the indexed chain.
+     */
+    private async commitBlock(data: IndexedBlock): Promise<void> {
+        const blockNumber = data.block.number;
+        const log = logger.child({ block_number: blockNumber, block_hash: data.block.hash });
+        const stopTimer = blockProcessingSeconds.startTimer();
+        try {
+            // Make sure the block extends what we already indexed
+            if (await this.detectReorg(blockNumber, data.block.hash, data.block.parent_hash)) {
+                await this.handleReorg(blockNumber);
+                return;
             }
 
+            await this.database.insertBlockData(data);
             this.lastProcessedBlock = blockNumber;
-            logger.info(`Processed block ${blockNumber} with ${blockWithTxs.transactions.length} transactions`);
+            this.updateHeadMetrics();
+            blocksProcessed.inc();
+            transactionsProcessed.inc(data.transactions.length);
+
+            for (const tokenAddress of new Set(data.token_transfers.map(transfer => transfer.token_address))) {
+                await this.registerToken(tokenAddress, 'ERC20', blockNumber);
+            }
+
+            // Metadata of minted NFTs is resolved in the background
+            for (const transfer of data.nft_transfers) {
+                await this.registerToken(transfer.token_address, transfer.token_type, blockNumber);
+                if (transfer.from_address === ethers.constants.AddressZero) {
+                    this.nftMetadata.enqueue(transfer);
+                }
+            }
+
+            log.info('Processed block', { transactions: data.transactions.length });
+            this.emit('block', data);
         } catch (error) {
-            logger.error(`Failed to process block ${blockNumber}:`, error);
+            log.error('Failed to process block', error);
             throw error;
+        } finally {
+            stopTimer();
+        }
+    }
+
+    /**
+     * Stores token metadata the first time a token shows up in a transfer.
+     */
+    private async registerToken(address: string, tokenType: string, blockNumber: number): Promise<void> {
+        if (this.knownTokens.has(address)) return;
+
+        try {
+            if (!(await this.database.getToken(address))) {
+                const metadata = await this.blockchain.getTokenMetadata(address);
+                await this.database.insertToken({
+                    address,
+                    ...metadata,
+                    token_type: tokenType,
+                    first_seen_block: blockNumber
+                });
+                await this.database.insertContractInterface(address, tokenType);
+            }
+            this.knownTokens.add(address);
+        } catch (error) {
+            logger.error('Failed to register token', { token_address: address, block_number: blockNumber }, error);
+        }
+    }
+
+    /**
+     * A reorg has happened when the block we are about to store does not build on
+     * the stored parent, or when a different block is already stored at its height.
+     */
+    private async detectReorg(blockNumber: number, hash: string, parentHash: string): Promise<boolean> {
+        const existing = await this.database.getBlock(blockNumber);
+        if (existing && existing.hash !== hash) {
+            return true;
+        }
+
+        const parent = await this.database.getBlock(blockNumber - 1);
+        return parent !== null && parent.hash !== parentHash;
+    }
+
+    /**
+     * Walks back from the fork point until the stored hash matches the canonical
+     * chain, drops everything above the common ancestor and re-indexes the
+     * canonical branch up to `headNumber`.
+     */
+    private async handleReorg(headNumber: number): Promise<void> {
+        const maxDepth = config.indexer.reorg_depth;
+        let ancestor = headNumber - 1;
+
+        while (ancestor >= 0) {
+            const stored = await this.database.getBlock(ancestor);
+            if (!stored) {
+                break;
+            }
+
+            const canonical = await this.blockchain.getBlock(ancestor);
+            if (canonical.hash === stored.hash) {
+                break;
+            }
+
+            if (headNumber - ancestor > maxDepth) {
+                throw new Error(`Reorg at block ${headNumber} exceeds maximum depth of ${maxDepth} blocks`);
+            }
+            ancestor--;
+        }
+
+        const orphaned = await this.database.deleteBlocksAfter(ancestor);
+        this.lastProcessedBlock = Math.min(this.lastProcessedBlock, ancestor);
+        this.updateHeadMetrics();
+
+        logger.warn('Chain reorg detected', {
+            block_number: headNumber,
+            common_ancestor: ancestor,
+            depth: orphaned.length
+        });
+        this.emit('reorg', {
+            common_ancestor: ancestor,
+            depth: orphaned.length,
+            orphaned_hashes: orphaned.map(block => block.hash)
+        });
+
+        for (let blockNumber = ancestor + 1; blockNumber <= headNumber; blockNumber++) {
+            await this.processBlock(blockNumber);
         }
+
+        const newHashes: string[] = [];
+        for (const block of orphaned) {
+            const canonical = await this.database.getBlock(block.number);
+            if (canonical) {
+                newHashes.push(canonical.hash);
+            }
+        }
+
+        await this.database.insertReorg({
+            common_ancestor: ancestor,
+            depth: orphaned.length,
+            old_hashes: orphaned.map(block => block.hash),
+            new_hashes: newHashes,
+            detected_at: new Date()
+        });
+    }
+
+    private setChainHead(blockNumber: number): void {
+        this.chainHead = blockNumber;
+        this.updateHeadMetrics();
+    }
+
+    private updateHeadMetrics(): void {
+        chainHeadBlock.set(this.chainHead);
+        indexedHeadBlock.set(this.lastProcessedBlock);
+        indexerLagBlocks.set(this.getLag());
     }
 
     getLastProcessedBlock(): number {
         return this.lastProcessedBlock;
     }
 
+    // Blocks the indexer is behind the latest head it has seen, not counting the confirmation depth
+    getLag(): number {
+        return Math.max(this.chainHead - config.indexer.confirmations - this.lastProcessedBlock, 0);
+    }
+
     isRunning(): boolean {
         return this.isIndexing;
     }
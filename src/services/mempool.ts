@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { pendingTransactions } from '../utils/metrics';
+import { BlockchainService } from './blockchain';
+import { DatabaseService, NewPendingTransaction } from './database';
+import config from '../config';
+
+const SWEEP_INTERVAL_MS = 30 * 1000;
+// Dropped and replaced transactions stay visible this long
+const RESOLVED_RETENTION_MS = 24 * 60 * 60 * 1000;
+// Transactions reported again are only re-stored this often, to keep txpool polling cheap
+const REFRESH_INTERVAL_MS = 60 * 1000;
+// Transactions unseen for the TTL that are looked up at the node per sweep
+const MAX_STALE_CHECKS = 1000;
+
+function toPendingRow(tx: ethers.providers.TransactionResponse): NewPendingTransaction {
+    return {
+        hash: tx.hash.toLowerCase(),
+        from_address: tx.from,
+        to_address: tx.to || undefined,
+        value: tx.value.toString(),
+        gas_limit: tx.gasLimit.toString(),
+        gas_price: tx.maxFeePerGas ? null : tx.gasPrice?.toString() ?? null,
+        max_fee_per_gas: tx.maxFeePerGas?.toString() ?? null,
+        max_priority_fee_per_gas: tx.maxPriorityFeePerGas?.toString() ?? null,
+        input: tx.data,
+        nonce: tx.nonce
+    };
+}
+
+/**
+ * Keeps `pending_transactions` in step with the node's mempool so that
+ * transactions can be looked up before they are mined. Block indexing removes
+ * transactions once mined and marks same-nonce ones as replaced; a periodic
+ * sweep catches up on races with it and marks transactions the node no longer
+ * knows as dropped.
+ */
+export class MempoolService {
+    private blockchain: BlockchainService;
+    private database: DatabaseService;
+    // When each transaction was last written
+    private stored: Map<string, number>;
+    private sweepTimer?: NodeJS.Timeout;
+    private isSweeping: boolean;
+
+    constructor(blockchain: BlockchainService, database: DatabaseService) {
+        this.blockchain = blockchain;
+        this.database = database;
+        this.stored = new Map();
+        this.isSweeping = false;
+    }
+
+    start(): void {
+        if (this.sweepTimer) {
+            logger.warn('Mempool tracking is already running');
+            return;
+        }
+
+        this.blockchain.subscribeToPendingTransactions(transactions => {
+            this.store(transactions).catch(error => {
+                logger.error('Failed to store pending transactions', { count: transactions.length }, error);
+            });
+        });
+        this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+        logger.info('Tracking pending transactions');
+    }
+
+    stop(): void {
+        if (!this.sweepTimer) return;
+
+        this.blockchain.unsubscribeFromPendingTransactions();
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = undefined;
+        logger.info('Stopped tracking pending transactions');
+    }
+
+    private async store(transactions: ethers.providers.TransactionResponse[]): Promise<void> {
+        const now = Date.now();
+        const due = transactions.filter(tx => now - (this.stored.get(tx.hash.toLowerCase()) ?? 0) >= REFRESH_INTERVAL_MS);
+        if (due.length === 0) return;
+
+        const inserted = await this.database.insertPendingTransactions(due.map(toPendingRow), new Date(now));
+        for (const tx of due) {
+            this.stored.set(tx.hash.toLowerCase(), now);
+        }
+        if (inserted > 0) {
+            logger.debug('Stored pending transactions', { count: inserted });
+        }
+    }
+
+    private async sweep(): Promise<void> {
+        if (this.isSweeping) return;
+        this.isSweeping = true;
+
+        try {
+            const now = Date.now();
+            await this.expireStale(new Date(now - config.mempool.pending_ttl_minutes * 60 * 1000), new Date(now));
+            const pending = await this.database.sweepPendingTransactions(new Date(now - RESOLVED_RETENTION_MS));
+            pendingTransactions.set(pending);
+
+            // Forget transactions that would be stored again anyway
+            for (const [hash, storedAt] of this.stored) {
+                if (now - storedAt >= REFRESH_INTERVAL_MS) {
+                    this.stored.delete(hash);
+                }
+            }
+        } catch (error) {
+            logger.error('Failed to sweep pending transactions:', error);
+        } finally {
+            this.isSweeping = false;
+        }
+    }
+
+    /**
+     * Asks the node about transactions not reported since `seenBefore` before
+     * dropping them: subscriptions announce a transaction only once, so one
+     * may wait in the mempool far longer without being reported again. Those
+     * the node still knows, pending or mined but not indexed yet, count as
+     * seen now.
+     */
+    private async expireStale(seenBefore: Date, now: Date): Promise<void> {
+        const hashes = await this.database.getStalePendingTransactions(seenBefore, MAX_STALE_CHECKS);
+        if (hashes.length === 0) return;
+
+        const transactions = await this.blockchain.getTransactionsByHash(hashes);
+        const known = hashes.filter((_, i) => transactions[i] !== null);
+        const unknown = hashes.filter((_, i) => transactions[i] === null);
+        await this.database.markPendingTransactionsSeen(known, now);
+        await this.database.dropPendingTransactions(unknown, now);
+        if (unknown.length > 0) {
+            logger.debug('Dropped pending transactions', { count: unknown.length });
+        }
+    }
+}
@@ -0,0 +1,449 @@
+export interface Migration {
+    version: number;
+    name: string;
+    up: string;
+}
+
+/**
+ * Ordered schema migrations applied by `DatabaseService.migrate()`.
+ *
+ * Applied versions are recorded in `schema_migrations`, so a migration must
+ * never be edited once released: add a new one instead. Statements use
+ * IF NOT EXISTS so databases whose tables were created by hand can adopt the
+ * migrations without losing data.
+ */
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        name: 'core_schema',
+        up: `
+            CREATE TABLE IF NOT EXISTS blocks (
+                number INTEGER PRIMARY KEY,
+                hash VARCHAR(66) NOT NULL UNIQUE,
+                parent_hash VARCHAR(66) NOT NULL,
+                timestamp TIMESTAMPTZ NOT NULL,
+                transactions_count INTEGER NOT NULL DEFAULT 0,
+                gas_used NUMERIC(78, 0) NOT NULL,
+                gas_limit NUMERIC(78, 0) NOT NULL,
+                base_fee_per_gas NUMERIC(78, 0)
+            );
+
+            CREATE TABLE IF NOT EXISTS transactions (
+                hash VARCHAR(66) PRIMARY KEY,
+                block_number INTEGER NOT NULL,
+                from_address VARCHAR(42) NOT NULL,
+                to_address VARCHAR(42),
+                value NUMERIC(78, 0) NOT NULL,
+                gas_price NUMERIC(78, 0) NOT NULL,
+                gas_used NUMERIC(78, 0) NOT NULL,
+                input TEXT NOT NULL,
+                status BOOLEAN NOT NULL,
+                transaction_index INTEGER NOT NULL,
+                nonce INTEGER NOT NULL,
+                created_at TIMESTAMPTZ NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_transactions_block_number
+                ON transactions (block_number DESC, transaction_index DESC);
+            CREATE INDEX IF NOT EXISTS idx_transactions_from_address
+                ON transactions (from_address, block_number DESC, transaction_index DESC);
+            CREATE INDEX IF NOT EXISTS idx_transactions_to_address
+                ON transactions (to_address, block_number DESC, transaction_index DESC);
+
+            CREATE TABLE IF NOT EXISTS contract_verifications (
+                address VARCHAR(42) PRIMARY KEY,
+                name TEXT,
+                source_code TEXT,
+                compiler_version TEXT,
+                optimization_used BOOLEAN,
+                optimization_runs INTEGER,
+                constructor_arguments TEXT,
+                abi TEXT,
+                verified_at TIMESTAMPTZ,
+                is_verified BOOLEAN NOT NULL DEFAULT FALSE,
+                license_type TEXT,
+                verification_status VARCHAR(16) NOT NULL DEFAULT 'pending',
+                verification_error TEXT
+            );
+
+            CREATE TABLE IF NOT EXISTS contract_sources (
+                address VARCHAR(42) NOT NULL,
+                filename TEXT NOT NULL,
+                source_code TEXT,
+                compiler_version TEXT,
+                abi TEXT,
+                creation_bytecode TEXT,
+                deployed_bytecode TEXT,
+                is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+                PRIMARY KEY (address, filename)
+            );
+
+            CREATE TABLE IF NOT EXISTS contract_interfaces (
+                address VARCHAR(42) NOT NULL,
+                interface_type VARCHAR(32) NOT NULL,
+                detected_at TIMESTAMPTZ NOT NULL,
+                PRIMARY KEY (address, interface_type)
+            );
+        `
+    },
+    {
+        version: 2,
+        name: 'chain_reorgs',
+        up: `
+            CREATE TABLE IF NOT EXISTS chain_reorgs (
+                id SERIAL PRIMARY KEY,
+                common_ancestor INTEGER NOT NULL,
+                depth INTEGER NOT NULL,
+                old_hashes TEXT[] NOT NULL,
+                new_hashes TEXT[] NOT NULL,
+                detected_at TIMESTAMPTZ NOT NULL
+            );
+        `
+    },
+    {
+        version: 3,
+        name: 'event_logs',
+        up: `
+            ALTER TABLE transactions ADD COLUMN IF NOT EXISTS cumulative_gas_used NUMERIC(78, 0);
+            ALTER TABLE transactions ADD COLUMN IF NOT EXISTS contract_address VARCHAR(42);
+
+            CREATE TABLE IF NOT EXISTS logs (
+                transaction_hash VARCHAR(66) NOT NULL,
+                log_index INTEGER NOT NULL,
+                block_number INTEGER NOT NULL,
+                transaction_index INTEGER NOT NULL,
+                address VARCHAR(42) NOT NULL,
+                topic0 VARCHAR(66),
+                topic1 VARCHAR(66),
+                topic2 VARCHAR(66),
+                topic3 VARCHAR(66),
+                data TEXT NOT NULL,
+                PRIMARY KEY (transaction_hash, log_index)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_logs_block_number ON logs (block_number, log_index);
+            CREATE INDEX IF NOT EXISTS idx_logs_address ON logs (address, block_number);
+            CREATE INDEX IF NOT EXISTS idx_logs_topic0 ON logs (topic0, block_number);
+        `
+    },
+    {
+        version: 4,
+        name: 'erc20_tokens',
+        up: `
+            CREATE TABLE IF NOT EXISTS tokens (
+                address VARCHAR(42) PRIMARY KEY,
+                name TEXT,
+                symbol TEXT,
+                decimals INTEGER,
+                total_supply NUMERIC(78, 0),
+                token_type VARCHAR(16) NOT NULL,
+                first_seen_block INTEGER NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS token_transfers (
+                transaction_hash VARCHAR(66) NOT NULL,
+                log_index INTEGER NOT NULL,
+                block_number INTEGER NOT NULL,
+                token_address VARCHAR(42) NOT NULL,
+                from_address VARCHAR(42) NOT NULL,
+                to_address VARCHAR(42) NOT NULL,
+                value NUMERIC(78, 0) NOT NULL,
+                timestamp TIMESTAMPTZ NOT NULL,
+                PRIMARY KEY (transaction_hash, log_index)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_token_transfers_block_number ON token_transfers (block_number);
+            CREATE INDEX IF NOT EXISTS idx_token_transfers_token ON token_transfers (token_address, block_number DESC, log_index DESC);
+            CREATE INDEX IF NOT EXISTS idx_token_transfers_from ON token_transfers (from_address, block_number DESC);
+            CREATE INDEX IF NOT EXISTS idx_token_transfers_to ON token_transfers (to_address, block_number DESC);
+
+            CREATE TABLE IF NOT EXISTS token_balances (
+                token_address VARCHAR(42) NOT NULL,
+                holder_address VARCHAR(42) NOT NULL,
+                balance NUMERIC(78, 0) NOT NULL,
+                updated_block INTEGER NOT NULL,
+                PRIMARY KEY (token_address, holder_address)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_token_balances_holder ON token_balances (holder_address);
+            CREATE INDEX IF NOT EXISTS idx_token_balances_ranking ON token_balances (token_address, balance DESC);
+        `
+    },
+    {
+        version: 5,
+        name: 'nft_tokens',
+        up: `
+            CREATE TABLE IF NOT EXISTS nft_transfers (
+                transaction_hash VARCHAR(66) NOT NULL,
+                log_index INTEGER NOT NULL,
+                batch_index INTEGER NOT NULL,
+                block_number INTEGER NOT NULL,
+                token_address VARCHAR(42) NOT NULL,
+                token_id NUMERIC(78, 0) NOT NULL,
+                from_address VARCHAR(42) NOT NULL,
+                to_address VARCHAR(42) NOT NULL,
+                amount NUMERIC(78, 0) NOT NULL,
+                token_type VARCHAR(16) NOT NULL,
+                timestamp TIMESTAMPTZ NOT NULL,
+                PRIMARY KEY (transaction_hash, log_index, batch_index)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_nft_transfers_block_number ON nft_transfers (block_number);
+            CREATE INDEX IF NOT EXISTS idx_nft_transfers_token ON nft_transfers (token_address, token_id, block_number DESC);
+
+            CREATE TABLE IF NOT EXISTS nft_balances (
+                token_address VARCHAR(42) NOT NULL,
+                token_id NUMERIC(78, 0) NOT NULL,
+                owner_address VARCHAR(42) NOT NULL,
+                quantity NUMERIC(78, 0) NOT NULL,
+                updated_block INTEGER NOT NULL,
+                PRIMARY KEY (token_address, token_id, owner_address)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_nft_balances_owner ON nft_balances (owner_address, token_address);
+
+            CREATE TABLE IF NOT EXISTS nft_metadata (
+                token_address VARCHAR(42) NOT NULL,
+                token_id NUMERIC(78, 0) NOT NULL,
+                token_uri TEXT,
+                metadata JSONB,
+                error TEXT,
+                fetched_at TIMESTAMPTZ NOT NULL,
+                PRIMARY KEY (token_address, token_id)
+            );
+        `
+    },
+    {
+        version: 6,
+        name: 'internal_transactions',
+        up: `
+            CREATE TABLE IF NOT EXISTS internal_transactions (
+                transaction_hash VARCHAR(66) NOT NULL,
+                trace_address INTEGER[] NOT NULL,
+                block_number INTEGER NOT NULL,
+                depth INTEGER NOT NULL,
+                type VARCHAR(16) NOT NULL,
+                from_address VARCHAR(42) NOT NULL,
+                to_address VARCHAR(42),
+                value NUMERIC(78, 0) NOT NULL,
+                gas NUMERIC(78, 0) NOT NULL,
+                gas_used NUMERIC(78, 0) NOT NULL,
+                input TEXT NOT NULL,
+                error TEXT,
+                timestamp TIMESTAMPTZ NOT NULL,
+                PRIMARY KEY (transaction_hash, trace_address)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_internal_transactions_block_number ON internal_transactions (block_number);
+            CREATE INDEX IF NOT EXISTS idx_internal_transactions_from ON internal_transactions (from_address, block_number DESC);
+            CREATE INDEX IF NOT EXISTS idx_internal_transactions_to ON internal_transactions (to_address, block_number DESC);
+        `
+    },
+    {
+        version: 7,
+        name: 'contracts',
+        up: `
+            CREATE TABLE IF NOT EXISTS contracts (
+                address VARCHAR(42) PRIMARY KEY,
+                creator_address VARCHAR(42) NOT NULL,
+                creation_transaction_hash VARCHAR(66) NOT NULL,
+                block_number INTEGER NOT NULL,
+                creation_type VARCHAR(16) NOT NULL,
+                creation_bytecode_hash VARCHAR(66) NOT NULL,
+                runtime_code_hash VARCHAR(66),
+                created_at TIMESTAMPTZ NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_contracts_block_number ON contracts (block_number DESC);
+            CREATE INDEX IF NOT EXISTS idx_contracts_creator ON contracts (creator_address);
+        `
+    },
+    {
+        version: 8,
+        name: 'standard_json_verification',
+        up: `
+            ALTER TABLE contract_verifications ADD COLUMN IF NOT EXISTS standard_json TEXT;
+            ALTER TABLE contract_verifications ADD COLUMN IF NOT EXISTS contract_path TEXT;
+        `
+    },
+    {
+        version: 9,
+        name: 'verification_guid',
+        up: `
+            ALTER TABLE contract_verifications ADD COLUMN IF NOT EXISTS guid VARCHAR(64);
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_contract_verifications_guid ON contract_verifications (guid);
+        `
+    },
+    {
+        version: 10,
+        name: 'address_stats',
+        up: `
+            CREATE TABLE IF NOT EXISTS address_stats (
+                address VARCHAR(42) PRIMARY KEY,
+                transaction_count BIGINT NOT NULL DEFAULT 0,
+                sent_count BIGINT NOT NULL DEFAULT 0,
+                received_count BIGINT NOT NULL DEFAULT 0,
+                gas_used NUMERIC(78, 0) NOT NULL DEFAULT 0,
+                fees_paid NUMERIC(78, 0) NOT NULL DEFAULT 0,
+                first_seen_block INTEGER NOT NULL,
+                first_seen_at TIMESTAMPTZ NOT NULL,
+                last_seen_block INTEGER NOT NULL,
+                last_seen_at TIMESTAMPTZ NOT NULL
+            );
+
+            INSERT INTO address_stats (
+                address, transaction_count, sent_count, received_count, gas_used, fees_paid,
+                first_seen_block, first_seen_at, last_seen_block, last_seen_at
+            )
+            SELECT
+                address, COUNT(DISTINCT hash), SUM(sent), SUM(received), SUM(gas_used), SUM(fees_paid),
+                MIN(block_number), MIN(created_at), MAX(block_number), MAX(created_at)
+            FROM (
+                SELECT LOWER(from_address) AS address, hash, block_number, created_at,
+                    1 AS sent, 0 AS received, gas_used, gas_used * gas_price AS fees_paid
+                FROM transactions
+                UNION ALL
+                SELECT LOWER(to_address), hash, block_number, created_at, 0, 1, 0, 0
+                FROM transactions WHERE to_address IS NOT NULL
+            ) activity
+            GROUP BY address
+            ON CONFLICT (address) DO NOTHING;
+        `
+    },
+    {
+        version: 11,
+        name: 'search_indexes',
+        up: `
+            CREATE INDEX IF NOT EXISTS idx_tokens_name_search ON tokens (LOWER(name) text_pattern_ops);
+            CREATE INDEX IF NOT EXISTS idx_tokens_symbol_search ON tokens (LOWER(symbol) text_pattern_ops);
+            CREATE INDEX IF NOT EXISTS idx_contract_verifications_name_search
+                ON contract_verifications (LOWER(name) text_pattern_ops) WHERE is_verified;
+        `
+    },
+    {
+        version: 12,
+        name: 'daily_stats',
+        up: `
+            CREATE INDEX IF NOT EXISTS idx_blocks_timestamp ON blocks (timestamp);
+
+            CREATE TABLE IF NOT EXISTS daily_stats (
+                day DATE PRIMARY KEY,
+                block_count INTEGER NOT NULL DEFAULT 0,
+                transaction_count BIGINT NOT NULL DEFAULT 0,
+                active_addresses INTEGER NOT NULL DEFAULT 0,
+                new_contracts INTEGER NOT NULL DEFAULT 0,
+                gas_used NUMERIC(78, 0) NOT NULL DEFAULT 0,
+                base_fee_sum NUMERIC(78, 0) NOT NULL DEFAULT 0,
+                base_fee_blocks INTEGER NOT NULL DEFAULT 0,
+                block_time_sum DOUBLE PRECISION NOT NULL DEFAULT 0,
+                block_time_intervals INTEGER NOT NULL DEFAULT 0
+            );
+
+            CREATE TABLE IF NOT EXISTS daily_active_addresses (
+                day DATE NOT NULL,
+                address VARCHAR(42) NOT NULL,
+                PRIMARY KEY (day, address)
+            );
+        `
+    },
+    {
+        version: 13,
+        name: 'contract_proxies',
+        up: `
+            CREATE TABLE IF NOT EXISTS contract_proxies (
+                address VARCHAR(42) PRIMARY KEY,
+                proxy_type VARCHAR(32) NOT NULL,
+                implementation VARCHAR(42),
+                beacon_address VARCHAR(42),
+                block_number INTEGER NOT NULL,
+                detected_at TIMESTAMPTZ NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_contract_proxies_block_number ON contract_proxies (block_number);
+
+            CREATE TABLE IF NOT EXISTS proxy_upgrades (
+                transaction_hash VARCHAR(66) NOT NULL,
+                log_index INTEGER NOT NULL,
+                block_number INTEGER NOT NULL,
+                proxy_address VARCHAR(42) NOT NULL,
+                implementation VARCHAR(42),
+                beacon_address VARCHAR(42),
+                timestamp TIMESTAMPTZ NOT NULL,
+                PRIMARY KEY (transaction_hash, log_index)
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_proxy_upgrades_proxy
+                ON proxy_upgrades (proxy_address, block_number DESC, log_index DESC);
+            CREATE INDEX IF NOT EXISTS idx_proxy_upgrades_block_number ON proxy_upgrades (block_number);
+
+            -- Upgrades emitted before this migration, from the logs already indexed
+            INSERT INTO proxy_upgrades (
+                transaction_hash, log_index, block_number, proxy_address, implementation, beacon_address, timestamp
+            )
+            SELECT
+                logs.transaction_hash, logs.log_index, logs.block_number, LOWER(logs.address),
+                CASE WHEN logs.topic0 = '0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b'
+                    THEN '0x' || SUBSTRING(LOWER(logs.topic1) FROM 27) END,
+                CASE WHEN logs.topic0 = '0x1cf3b03a6cf19fa2baba4df148e9dcabedea7f8a5c07840e207e5c089be95d3e'
+                    THEN '0x' || SUBSTRING(LOWER(logs.topic1) FROM 27) END,
+                blocks.timestamp
+            FROM logs
+            JOIN blocks ON blocks.number = logs.block_number
+            WHERE logs.topic0 IN (
+                '0xbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b',
+                '0x1cf3b03a6cf19fa2baba4df148e9dcabedea7f8a5c07840e207e5c089be95d3e'
+            )
+            AND logs.topic1 IS NOT NULL AND logs.topic2 IS NULL
+            ON CONFLICT (transaction_hash, log_index) DO NOTHING;
+        `
+    },
+    {
+        version: 14,
+        name: 'signatures',
+        up: `
+            CREATE TABLE IF NOT EXISTS signatures (
+                hash VARCHAR(66) NOT NULL,
+                signature TEXT NOT NULL,
+                type VARCHAR(8) NOT NULL,
+                source VARCHAR(16) NOT NULL,
+                created_at TIMESTAMPTZ NOT NULL,
+                PRIMARY KEY (hash, signature)
+            );
+        `
+    },
+    {
+        version: 15,
+        name: 'pending_transactions',
+        up: `
+            CREATE TABLE IF NOT EXISTS pending_transactions (
+                hash VARCHAR(66) PRIMARY KEY,
+                from_address VARCHAR(42) NOT NULL,
+                to_address VARCHAR(42),
+                value NUMERIC(78, 0) NOT NULL,
+                gas_limit NUMERIC(78, 0) NOT NULL,
+                gas_price NUMERIC(78, 0),
+                max_fee_per_gas NUMERIC(78, 0),
+                max_priority_fee_per_gas NUMERIC(78, 0),
+                input TEXT NOT NULL,
+                nonce INTEGER NOT NULL,
+                status VARCHAR(16) NOT NULL,
+                replaced_by VARCHAR(66),
+                first_seen_at TIMESTAMPTZ NOT NULL,
+                last_seen_at TIMESTAMPTZ NOT NULL,
+                resolved_at TIMESTAMPTZ
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_pending_transactions_sender ON pending_transactions (from_address, nonce);
+            CREATE INDEX IF NOT EXISTS idx_pending_transactions_to ON pending_transactions (to_address);
+            CREATE INDEX IF NOT EXISTS idx_pending_transactions_status ON pending_transactions (status, last_seen_at);
+            CREATE INDEX IF NOT EXISTS idx_pending_transactions_replaced_by ON pending_transactions (replaced_by);
+        `
+    },
+    {
+        version: 16,
+        name: 'nft_metadata_retries',
+        up: `
+            CREATE INDEX IF NOT EXISTS idx_nft_metadata_failed ON nft_metadata (fetched_at) WHERE error IS NOT NULL;
+        `
+    }
+];
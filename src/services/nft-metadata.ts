@@ -0,0 +1,206 @@
+import http from 'http';
+import https from 'https';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { assertPublicUrl, publicOnlyLookup } from '../utils/url-guard';
+import { BlockchainService } from './blockchain';
+import { DatabaseService } from './database';
+import config from '../config';
+
+const axios = require('axios');
+
+const MAX_METADATA_BYTES = 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Failed lookups are tried again once this long has passed since the last attempt
+const RETRY_AFTER_MS = 60 * 60 * 1000;
+const RETRY_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_RETRIES_PER_SWEEP = 100;
+
+// Contracts choose their metadata URLs, so those must not reach the indexer's own network
+const PUBLIC_HTTP_AGENT = new http.Agent({ lookup: publicOnlyLookup });
+const PUBLIC_HTTPS_AGENT = new https.Agent({ lookup: publicOnlyLookup });
+
+interface MetadataRequest {
+    token_address: string;
+    token_id: string;
+    token_type: 'ERC721' | 'ERC1155';
+}
+
+/**
+ * Resolves NFT metadata in the background so that slow or unreachable
+ * metadata hosts never hold up block processing. Results, including failures,
+ * are cached in `nft_metadata`; failures are retried hourly while the service
+ * runs.
+ */
+export class NftMetadataService {
+    private blockchain: BlockchainService;
+    private database: DatabaseService;
+    private queue: MetadataRequest[];
+    private queued: Set<string>;
+    private isProcessing: boolean;
+    private retryTimer?: NodeJS.Timeout;
+
+    constructor(blockchain: BlockchainService, database: DatabaseService) {
+        this.blockchain = blockchain;
+        this.database = database;
+        this.queue = [];
+        this.queued = new Set();
+        this.isProcessing = false;
+    }
+
+    start(): void {
+        if (this.retryTimer) return;
+        this.retryTimer = setInterval(() => {
+            this.retryFailed().catch(error => {
+                logger.error('Failed to retry NFT metadata:', error);
+            });
+        }, RETRY_SWEEP_INTERVAL_MS);
+    }
+
+    stop(): void {
+        clearInterval(this.retryTimer);
+        this.retryTimer = undefined;
+    }
+
+    enqueue(request: MetadataRequest): void {
+        const key = `${request.token_address}:${request.token_id}`;
+        if (this.queued.has(key)) return;
+
+        this.queued.add(key);
+        this.queue.push(request);
+        this.processQueue().catch(error => {
+            logger.error('NFT metadata queue failed:', error);
+        });
+    }
+
+    private async processQueue(): Promise<void> {
+        if (this.isProcessing) return;
+        this.isProcessing = true;
+
+        try {
+            while (this.queue.length > 0) {
+                const request = this.queue.shift()!;
+                await this.resolve(request);
+                this.queued.delete(`${request.token_address}:${request.token_id}`);
+            }
+        } finally {
+            this.isProcessing = false;
+        }
+    }
+
+    private async retryFailed(): Promise<void> {
+        const failed = await this.database.getFailedNftMetadata(new Date(Date.now() - RETRY_AFTER_MS), MAX_RETRIES_PER_SWEEP);
+        for (const request of failed) {
+            this.enqueue(request);
+        }
+    }
+
+    private async resolve(request: MetadataRequest): Promise<void> {
+        // Resolved metadata is kept; failures are only retried after a while
+        const existing = await this.database.getNftMetadata(request.token_address, request.token_id);
+        if (existing && (existing.error === null || Date.now() - new Date(existing.fetched_at).getTime() < RETRY_AFTER_MS)) {
+            return;
+        }
+
+        let tokenUri: string | null = null;
+        try {
+            tokenUri = await this.blockchain.getTokenUri(request.token_address, request.token_id, request.token_type);
+            const metadata = await this.fetchMetadata(
+                request.token_type === 'ERC1155' ? expandIdTemplate(tokenUri, request.token_id) : tokenUri
+            );
+
+            await this.database.upsertNftMetadata({
+                token_address: request.token_address,
+                token_id: request.token_id,
+                token_uri: tokenUri,
+                metadata,
+                error: null,
+                fetched_at: new Date()
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.warn('Failed to resolve NFT metadata', {
+                token_address: request.token_address,
+                token_id: request.token_id,
+                reason: errorMessage
+            });
+            await this.database.upsertNftMetadata({
+                token_address: request.token_address,
+                token_id: request.token_id,
+                token_uri: tokenUri,
+                metadata: null,
+                error: errorMessage,
+                fetched_at: new Date()
+            }).catch(() => undefined);
+        }
+    }
+
+    private async fetchMetadata(uri: string): Promise<any> {
+        if (uri.startsWith('data:')) {
+            const separator = uri.indexOf(',');
+            const header = uri.slice('data:'.length, separator);
+            const body = uri.slice(separator + 1);
+            const content = header.endsWith(';base64')
+                ? Buffer.from(body, 'base64').toString('utf8')
+                : decodeURIComponent(body);
+            return JSON.parse(content);
+        }
+
+        // The configured gateway is trusted, even on a private network
+        if (uri.startsWith('ipfs://')) {
+            const response = await axios.get(config.nft.ipfs_gateway + uri.slice('ipfs://'.length).replace(/^ipfs\//, ''), {
+                timeout: config.nft.metadata_timeout_ms,
+                maxContentLength: MAX_METADATA_BYTES,
+                responseType: 'json'
+            });
+            return parseJson(response.data);
+        }
+        if (uri.startsWith('http://') || uri.startsWith('https://')) {
+            return this.fetchPublic(uri);
+        }
+        throw new Error(`Unsupported metadata URI scheme: ${uri.split(':')[0]}`);
+    }
+
+    /**
+     * Fetches from public hosts only. Redirects are followed by hand so that
+     * every hop is checked the same way.
+     */
+    private async fetchPublic(url: string): Promise<any> {
+        let target = url;
+        for (let redirects = 0; ; redirects++) {
+            assertPublicUrl(target);
+            const response = await axios.get(target, {
+                timeout: config.nft.metadata_timeout_ms,
+                maxContentLength: MAX_METADATA_BYTES,
+                responseType: 'json',
+                maxRedirects: 0,
+                validateStatus: (status: number) => status >= 200 && status < 400,
+                httpAgent: PUBLIC_HTTP_AGENT,
+                httpsAgent: PUBLIC_HTTPS_AGENT
+            });
+            if (response.status < 300) {
+                return parseJson(response.data);
+            }
+
+            const location = response.headers.location;
+            if (!location) {
+                throw new Error(`Redirect without a location from ${new URL(target).host}`);
+            }
+            if (redirects >= MAX_REDIRECTS) {
+                throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+            }
+            target = new URL(location, target).toString();
+        }
+    }
+}
+
+function parseJson(data: unknown): any {
+    return typeof data === 'string' ? JSON.parse(data) : data;
+}
+
+// ERC-1155 clients replace `{id}` with the lowercase hex token ID padded to 64 characters
+function expandIdTemplate(uri: string, tokenId: string): string {
+    const hexId = ethers.utils.hexZeroPad(ethers.BigNumber.from(tokenId).toHexString(), 32).slice(2);
+    return uri.replace(/\{id\}/g, hexId);
+}
@@ -0,0 +1,431 @@
+import { Server } from 'http';
+import express from 'express';
+import { ethers } from 'ethers';
+import WebSocket, { WebSocketServer } from 'ws';
+import { logger } from '../utils/logger';
+import { formatLog, matchesLogFilter } from '../utils/log-filter';
+import { DatabaseService, IndexedBlock, LogFilter } from './database';
+import { IndexerService, ReorgEvent } from './indexer';
+
+// Older history has to be fetched from the REST API
+const MAX_REPLAY_BLOCKS = 1000;
+const REPLAY_BATCH_SIZE = 50;
+const MAX_SUBSCRIPTIONS = 20;
+const HEARTBEAT_INTERVAL_MS = 30000;
+// Clients that stop reading are disconnected instead of buffering without bound
+const MAX_BUFFERED_BYTES = 4 * 1024 * 1024;
+
+export type Channel = 'blocks' | 'transactions' | 'address' | 'logs';
+
+const CHANNELS: Channel[] = ['blocks', 'transactions', 'address', 'logs'];
+
+export interface SubscriptionFilter {
+    channel: Channel;
+    // Lowercased, for the address channel
+    address?: string;
+    log_filter?: Pick<LogFilter, 'addresses' | 'topics'>;
+}
+
+export type RealtimeMessage =
+    | { type: 'event'; subscription: string; channel: Channel; block_number: number; data: unknown }
+    | ({ type: 'reorg' } & ReorgEvent)
+    | { type: 'subscribed'; subscription: string; replay_from: number | null }
+    | { type: 'unsubscribed'; subscription: string }
+    | { type: 'error'; subscription?: string; message: string };
+
+interface Subscription {
+    id: string;
+    filter: SubscriptionFilter;
+    // Last block delivered; anything at or below it is not sent again
+    last_block: number;
+    // Blocks committed while history is being replayed, sent once the replay is done
+    backlog: IndexedBlock[] | null;
+}
+
+interface Connection {
+    subscriptions: Map<string, Subscription>;
+    closed: boolean;
+    send(message: RealtimeMessage): void;
+    heartbeat(): void;
+    close(): void;
+}
+
+export class RealtimeInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RealtimeInputError';
+    }
+}
+
+/**
+ * Validates a subscription request. `address` is a single address for the
+ * address channel and one or more addresses for the logs channel; `topics`
+ * follows `eth_getLogs` (null matches anything, an array matches any value).
+ */
+export function parseSubscriptionFilter(channel: unknown, address: unknown, topics: unknown): SubscriptionFilter {
+    if (!CHANNELS.includes(channel as Channel)) {
+        throw new RealtimeInputError(`Unknown channel, expected one of: ${CHANNELS.join(', ')}`);
+    }
+
+    if (channel === 'address') {
+        if (typeof address !== 'string' || !ethers.utils.isAddress(address)) {
+            throw new RealtimeInputError('The address channel requires a valid address');
+        }
+        return { channel, address: address.toLowerCase() };
+    }
+
+    if (channel === 'logs') {
+        const addresses = typeof address === 'string' ? [address] : address;
+        if (addresses !== undefined && (!Array.isArray(addresses)
+            || !addresses.every(value => typeof value === 'string' && ethers.utils.isAddress(value)))) {
+            throw new RealtimeInputError('Invalid address filter');
+        }
+
+        const topicList = topics === undefined ? [] : topics;
+        if (!Array.isArray(topicList) || topicList.length > 4) {
+            throw new RealtimeInputError('Invalid topics filter');
+        }
+        const normalized = topicList.map(topic => typeof topic === 'string' ? [topic] : topic);
+        if (!normalized.every(topic => topic === null
+            || (Array.isArray(topic) && topic.every(value => typeof value === 'string' && ethers.utils.isHexString(value, 32))))) {
+            throw new RealtimeInputError('Invalid topics filter');
+        }
+
+        return { channel, log_filter: { addresses, topics: normalized } };
+    }
+
+    return { channel: channel as Channel };
+}
+
+function parseLastSeenBlock(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const parsed = typeof value === 'number' ? value : Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new RealtimeInputError('Invalid last seen block');
+    }
+    return parsed;
+}
+
+/**
+ * What a subscription receives for a committed block, or null when nothing in
+ * the block matches its filter.
+ */
+function buildPayload(filter: SubscriptionFilter, data: IndexedBlock): unknown {
+    switch (filter.channel) {
+        case 'blocks':
+            return data.block;
+
+        case 'transactions':
+            return data.transactions.length > 0 ? { transactions: data.transactions } : null;
+
+        case 'address': {
+            const involves = (...addresses: (string | null | undefined)[]) =>
+                addresses.some(address => address?.toLowerCase() === filter.address);
+
+            const activity = {
+                transactions: data.transactions.filter(tx => involves(tx.from_address, tx.to_address, tx.contract_address)),
+                internal_transactions: data.internal_transactions.filter(internal => involves(internal.from_address, internal.to_address)),
+                token_transfers: data.token_transfers.filter(transfer => involves(transfer.from_address, transfer.to_address)),
+                nft_transfers: data.nft_transfers.filter(transfer => involves(transfer.from_address, transfer.to_address))
+            };
+            return Object.values(activity).some(items => items.length > 0) ? activity : null;
+        }
+
+        case 'logs': {
+            const logs = data.logs.filter(log => matchesLogFilter(log, filter.log_filter || {}));
+            return logs.length > 0 ? { logs: logs.map(formatLog) } : null;
+        }
+    }
+}
+
+/**
+ * Pushes committed blocks to WebSocket (`/ws`) and Server-Sent Events
+ * (`/stream`) clients. Subscriptions that pass the last block they saw get the
+ * blocks they missed replayed from the database before live updates resume.
+ */
+export class RealtimeService {
+    private database: DatabaseService;
+    private indexer: IndexerService;
+    private connections: Set<Connection>;
+    private server: WebSocketServer | null;
+    private heartbeatTimer: NodeJS.Timeout | null;
+    private nextSubscriptionId: number;
+
+    constructor(database: DatabaseService, indexer: IndexerService) {
+        this.database = database;
+        this.indexer = indexer;
+        this.connections = new Set();
+        this.server = null;
+        this.heartbeatTimer = null;
+        this.nextSubscriptionId = 1;
+
+        this.indexer.on('block', data => this.publish(data));
+        this.indexer.on('reorg', event => this.publishReorg(event));
+    }
+
+    /**
+     * Accepts WebSocket connections on `/ws` of the API server.
+     */
+    attach(server: Server): void {
+        this.server = new WebSocketServer({ server, path: '/ws' });
+        this.server.on('connection', socket => this.handleSocket(socket));
+
+        this.heartbeatTimer = setInterval(() => {
+            for (const connection of this.connections) {
+                connection.heartbeat();
+            }
+        }, HEARTBEAT_INTERVAL_MS);
+        this.heartbeatTimer.unref();
+    }
+
+    close(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        for (const connection of this.connections) {
+            connection.close();
+        }
+        this.server?.close();
+        this.server = null;
+    }
+
+    /**
+     * `GET /stream?channel=...` - one subscription per event stream. The block
+     * number is the event id, so a reconnecting EventSource resumes through
+     * `Last-Event-ID`; other clients can pass `last_seen_block`.
+     */
+    handleSse(req: express.Request, res: express.Response): void {
+        let filter: SubscriptionFilter;
+        let lastSeenBlock: number | undefined;
+        try {
+            const address = req.query.channel === 'logs' && typeof req.query.address === 'string'
+                ? req.query.address.split(',').map(part => part.trim())
+                : req.query.address;
+            const topics = [0, 1, 2, 3].map(position => {
+                const value = req.query[`topic${position}`];
+                return typeof value === 'string' && value !== '' ? value.split(',').map(part => part.trim()) : null;
+            });
+            while (topics.length > 0 && topics[topics.length - 1] === null) topics.pop();
+
+            filter = parseSubscriptionFilter(req.query.channel, address, topics);
+            lastSeenBlock = parseLastSeenBlock(req.header('Last-Event-ID') ?? req.query.last_seen_block);
+        } catch (error) {
+            if (error instanceof RealtimeInputError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            throw error;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.write(': connected\n\n');
+
+        const connection: Connection = {
+            subscriptions: new Map(),
+            closed: false,
+            send: message => {
+                if (connection.closed) return;
+                if (res.writableLength > MAX_BUFFERED_BYTES) {
+                    logger.warn('Closing slow event stream client');
+                    connection.close();
+                    return;
+                }
+                const event = message.type === 'event' ? message.channel : message.type;
+                const id = message.type === 'event' ? `id: ${message.block_number}\n` : '';
+                res.write(`${id}event: ${event}\ndata: ${JSON.stringify(message)}\n\n`);
+            },
+            heartbeat: () => {
+                if (!connection.closed) res.write(': keep-alive\n\n');
+            },
+            close: () => res.end()
+        };
+
+        this.connections.add(connection);
+        req.on('close', () => {
+            connection.closed = true;
+            this.connections.delete(connection);
+        });
+
+        this.subscribe(connection, 'stream', filter, lastSeenBlock);
+    }
+
+    private handleSocket(socket: WebSocket): void {
+        let alive = true;
+        const connection: Connection = {
+            subscriptions: new Map(),
+            closed: false,
+            send: message => {
+                if (socket.readyState !== WebSocket.OPEN) return;
+                if (socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+                    logger.warn('Closing slow WebSocket client');
+                    socket.terminate();
+                    return;
+                }
+                socket.send(JSON.stringify(message));
+            },
+            heartbeat: () => {
+                if (!alive) {
+                    socket.terminate();
+                    return;
+                }
+                alive = false;
+                socket.ping();
+            },
+            close: () => socket.close(1001, 'Server shutting down')
+        };
+
+        this.connections.add(connection);
+        socket.on('pong', () => {
+            alive = true;
+        });
+        socket.on('close', () => {
+            connection.closed = true;
+            this.connections.delete(connection);
+        });
+        socket.on('error', error => logger.warn('WebSocket client error:', error));
+        socket.on('message', raw => this.handleSocketMessage(connection, raw.toString()));
+    }
+
+    /**
+     * Handles `{ "type": "subscribe", "id", "channel", "address", "topics", "last_seen_block" }`
+     * and `{ "type": "unsubscribe", "id" }` messages.
+     */
+    private handleSocketMessage(connection: Connection, raw: string): void {
+        let message: any;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            connection.send({ type: 'error', message: 'Invalid JSON message' });
+            return;
+        }
+
+        const id = message?.id !== undefined && message?.id !== null
+            ? String(message.id)
+            : String(this.nextSubscriptionId++);
+
+        try {
+            switch (message?.type) {
+                case 'subscribe': {
+                    if (connection.subscriptions.has(id)) {
+                        throw new RealtimeInputError(`Subscription ${id} already exists`);
+                    }
+                    if (connection.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+                        throw new RealtimeInputError(`At most ${MAX_SUBSCRIPTIONS} subscriptions per connection`);
+                    }
+                    const filter = parseSubscriptionFilter(message.channel, message.address, message.topics);
+                    this.subscribe(connection, id, filter, parseLastSeenBlock(message.last_seen_block));
+                    break;
+                }
+
+                case 'unsubscribe':
+                    if (!connection.subscriptions.delete(id)) {
+                        throw new RealtimeInputError(`Unknown subscription ${id}`);
+                    }
+                    connection.send({ type: 'unsubscribed', subscription: id });
+                    break;
+
+                default:
+                    throw new RealtimeInputError('Unknown message type, expected subscribe or unsubscribe');
+            }
+        } catch (error) {
+            const errorMessage = error instanceof RealtimeInputError ? error.message : 'Internal error';
+            if (!(error instanceof RealtimeInputError)) {
+                logger.error('Failed to handle WebSocket message:', error);
+            }
+            connection.send({ type: 'error', subscription: id, message: errorMessage });
+        }
+    }
+
+    private subscribe(connection: Connection, id: string, filter: SubscriptionFilter, lastSeenBlock?: number): void {
+        const head = this.indexer.getLastProcessedBlock();
+        const replayFrom = lastSeenBlock !== undefined
+            ? Math.max(lastSeenBlock + 1, head - MAX_REPLAY_BLOCKS + 1, 0)
+            : null;
+
+        const subscription: Subscription = {
+            id,
+            filter,
+            last_block: replayFrom !== null ? replayFrom - 1 : -1,
+            backlog: replayFrom !== null ? [] : null
+        };
+        connection.subscriptions.set(id, subscription);
+        connection.send({ type: 'subscribed', subscription: id, replay_from: replayFrom });
+
+        if (replayFrom !== null) {
+            this.replay(connection, subscription, replayFrom, head);
+        }
+    }
+
+    private async replay(connection: Connection, subscription: Subscription, fromBlock: number, toBlock: number): Promise<void> {
+        const isActive = () => !connection.closed && connection.subscriptions.get(subscription.id) === subscription;
+
+        try {
+            for (let start = fromBlock; start <= toBlock && isActive(); start += REPLAY_BATCH_SIZE) {
+                const blocks = await this.database.getIndexedBlocks(start, Math.min(start + REPLAY_BATCH_SIZE - 1, toBlock));
+                for (const data of blocks) {
+                    this.sendBlock(connection, subscription, data);
+                }
+            }
+        } catch (error) {
+            logger.error(`Failed to replay blocks ${fromBlock}-${toBlock}:`, error);
+            connection.send({ type: 'error', subscription: subscription.id, message: 'Failed to replay missed blocks' });
+        } finally {
+            const backlog = subscription.backlog || [];
+            subscription.backlog = null;
+            for (const data of backlog) {
+                this.sendBlock(connection, subscription, data);
+            }
+        }
+    }
+
+    private publish(data: IndexedBlock): void {
+        for (const connection of this.connections) {
+            for (const subscription of connection.subscriptions.values()) {
+                try {
+                    if (subscription.backlog) {
+                        subscription.backlog.push(data);
+                    } else {
+                        this.sendBlock(connection, subscription, data);
+                    }
+                } catch (error) {
+                    logger.error(`Failed to publish block ${data.block.number}:`, error);
+                }
+            }
+        }
+    }
+
+    private sendBlock(connection: Connection, subscription: Subscription, data: IndexedBlock): void {
+        if (data.block.number <= subscription.last_block) return;
+        subscription.last_block = data.block.number;
+
+        const payload = buildPayload(subscription.filter, data);
+        if (payload === null) return;
+
+        connection.send({
+            type: 'event',
+            subscription: subscription.id,
+            channel: subscription.filter.channel,
+            block_number: data.block.number,
+            data: payload
+        });
+    }
+
+    // Orphaned blocks will be re-sent as their replacements are committed
+    private publishReorg(event: ReorgEvent): void {
+        for (const connection of this.connections) {
+            if (connection.subscriptions.size === 0) continue;
+
+            for (const subscription of connection.subscriptions.values()) {
+                subscription.last_block = Math.min(subscription.last_block, event.common_ancestor);
+                subscription.backlog = subscription.backlog?.filter(data => data.block.number <= event.common_ancestor) ?? null;
+            }
+            connection.send({ type: 'reorg', ...event });
+        }
+    }
+}
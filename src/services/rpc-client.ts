@@ -0,0 +1,519 @@
+import { ethers } from 'ethers';
+import WebSocket from 'ws';
+import { logger } from '../utils/logger';
+import { rpcErrors, rpcRequestSeconds } from '../utils/metrics';
+
+const axios = require('axios');
+
+export interface RpcClientOptions {
+    urls: string[];
+    ws_urls: string[];
+    max_batch_size: number;
+    timeout_ms: number;
+    max_retries: number;
+    retry_base_delay_ms: number;
+    // 0 disables throttling
+    requests_per_second: number;
+}
+
+export interface RpcRequest {
+    method: string;
+    params: any[];
+}
+
+export interface RpcEndpointStatus {
+    endpoint: string;
+    healthy: boolean;
+    latency_ms: number | null;
+    consecutive_failures: number;
+}
+
+/**
+ * Where a subscription gets its data: an `eth_subscribe` stream over a
+ * WebSocket endpoint, and a poller used while no such stream is active.
+ */
+export interface SubscriptionSource {
+    // `eth_subscribe` parameters, e.g. ['newHeads']
+    params: any[];
+    onNotification: (result: any) => void;
+    poll: () => Promise<void>;
+    poll_interval_ms: number;
+}
+
+export class JsonRpcError extends Error {
+    code: number;
+
+    constructor(code: number, message: string) {
+        super(message);
+        this.name = 'JsonRpcError';
+        this.code = code;
+    }
+}
+
+// Nodes report unknown methods with -32601 but some use other codes, so the message is checked as well
+export function isMethodNotSupported(error: unknown): boolean {
+    if (!(error instanceof JsonRpcError)) return false;
+    return error.code === -32601 || /method .*(not found|not supported|does not exist|not available)/i.test(error.message);
+}
+
+// Errors a node or gateway returns when it is overloaded or behind, worth retrying elsewhere
+const TRANSIENT_RPC_CODES = new Set([-32005, 429]);
+const TRANSIENT_RPC_MESSAGE = /rate limit|too many requests|timed? ?out|header not found|temporarily unavailable|try again/i;
+
+const MAX_RETRY_DELAY_MS = 30000;
+// An endpoint that keeps failing is skipped for up to this long
+const MAX_COOLDOWN_MS = 60000;
+const COOLDOWN_BASE_MS = 1000;
+// Weight of the latest response time in the smoothed latency
+const LATENCY_SMOOTHING = 0.2;
+const HEAD_POLL_INTERVAL_MS = 4000;
+// A connection that misses a pong for this long is treated as dropped, even if it never closed
+const HEARTBEAT_INTERVAL_MS = 15000;
+// An endpoint that rejected a subscription this often is not asked for it again
+const MAX_SUBSCRIBE_REJECTIONS = 3;
+
+interface Endpoint {
+    url: string;
+    latency_ms: number | null;
+    consecutive_failures: number;
+    down_until: number;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Logs and health output show the host only; paths and credentials often hold API keys
+export function describeEndpoint(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return 'invalid url';
+    }
+}
+
+function isTransientRpcError(error: { code?: number; message?: string } | undefined): boolean {
+    if (!error) return false;
+    return TRANSIENT_RPC_CODES.has(error.code as number) || TRANSIENT_RPC_MESSAGE.test(error.message || '');
+}
+
+// Timeouts, refused connections and 5xx/429 responses are retried; other HTTP errors are not
+function isTransientTransportError(error: any): boolean {
+    const status: number | undefined = error?.response?.status;
+    return status === undefined || status >= 500 || status === 429 || status === 408;
+}
+
+// A response whose errors all come from the node being overloaded rather than from the request
+function transientErrorOf(data: any): { code?: number; message?: string } | undefined {
+    if (Array.isArray(data)) {
+        return data.map(item => item?.error).find(isTransientRpcError);
+    }
+    return isTransientRpcError(data?.error) ? data.error : undefined;
+}
+
+/**
+ * Shared JSON-RPC client for every call the indexer and the API make to the
+ * node. Requests go to the healthiest configured endpoint and move on to the
+ * next one when an endpoint times out, fails or rate limits, retrying with
+ * exponential backoff. A token bucket keeps the overall request rate within
+ * `requests_per_second`, counting each call of a batch.
+ */
+export class RpcClient {
+    readonly provider: RpcProvider;
+    private options: RpcClientOptions;
+    private endpoints: Endpoint[];
+    private nextRequestId: number;
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(options: RpcClientOptions) {
+        if (options.urls.length === 0) {
+            throw new Error('At least one RPC endpoint is required');
+        }
+        this.options = options;
+        this.endpoints = options.urls.map(url => ({ url, latency_ms: null, consecutive_failures: 0, down_until: 0 }));
+        this.nextRequestId = 1;
+        this.tokens = options.requests_per_second;
+        this.lastRefill = Date.now();
+        this.provider = new RpcProvider(this);
+    }
+
+    async send<T = any>(method: string, params: any[] = []): Promise<T> {
+        const stopTimer = rpcRequestSeconds.startTimer({ method });
+        try {
+            const response = await this.post({ jsonrpc: '2.0', id: this.nextRequestId++, method, params }, [method], 1);
+            if (response.error) {
+                rpcErrors.inc({ method });
+                throw new JsonRpcError(response.error.code, response.error.message);
+            }
+            return response.result;
+        } finally {
+            stopTimer();
+        }
+    }
+
+    /**
+     * Sends several calls in batch requests of at most `max_batch_size`
+     * calls. Results are returned in request order; any failed call rejects
+     * the whole batch.
+     */
+    async batch<T = any>(requests: RpcRequest[]): Promise<T[]> {
+        const results: T[] = [];
+
+        for (let start = 0; start < requests.length; start += this.options.max_batch_size) {
+            const chunk = requests.slice(start, start + this.options.max_batch_size);
+            const payload = chunk.map(request => ({
+                jsonrpc: '2.0',
+                id: this.nextRequestId++,
+                method: request.method,
+                params: request.params
+            }));
+
+            // The whole batch shares one round trip, so every method in it gets the same duration
+            const methods = [...new Set(chunk.map(request => request.method))];
+            const stopTimers = methods.map(method => rpcRequestSeconds.startTimer({ method }));
+            let response;
+            try {
+                response = await this.post(payload, methods, payload.length);
+            } finally {
+                stopTimers.forEach(stopTimer => stopTimer());
+            }
+            if (!Array.isArray(response)) {
+                methods.forEach(method => rpcErrors.inc({ method }));
+                throw new JsonRpcError(response?.error?.code ?? -32600, response?.error?.message || 'Invalid batch response');
+            }
+
+            const byId = new Map<number, any>(response.map((item: any) => [item.id, item]));
+            for (const request of payload) {
+                const item = byId.get(request.id);
+                if (!item) {
+                    rpcErrors.inc({ method: request.method });
+                    throw new JsonRpcError(-32603, `Missing response for ${request.method}`);
+                }
+                if (item.error) {
+                    rpcErrors.inc({ method: request.method });
+                    throw new JsonRpcError(item.error.code, item.error.message);
+                }
+                results.push(item.result);
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Relays a raw JSON-RPC request or batch and returns the node's response
+     * as is, for the public RPC proxy.
+     */
+    async forward(payload: unknown): Promise<unknown> {
+        const calls = Array.isArray(payload) ? payload : [payload];
+        const methods = [...new Set(calls.map(call => String(call?.method ?? 'unknown')))];
+        return await this.post(payload, methods, Math.max(calls.length, 1));
+    }
+
+    getEndpointStatus(): RpcEndpointStatus[] {
+        const now = Date.now();
+        return this.endpoints.map(endpoint => ({
+            endpoint: describeEndpoint(endpoint.url),
+            healthy: endpoint.down_until <= now,
+            latency_ms: endpoint.latency_ms === null ? null : Math.round(endpoint.latency_ms),
+            consecutive_failures: endpoint.consecutive_failures
+        }));
+    }
+
+    /**
+     * Calls `callback` with the number of each new chain head. Heads come
+     * from `newHeads` subscriptions on the WebSocket endpoints, failing over
+     * between them; while none is connected, or none is configured, the
+     * block number is polled over HTTP instead. Returns a function that ends
+     * the subscription.
+     */
+    subscribeNewHeads(callback: (blockNumber: number) => void): () => void {
+        let lastHead: number | undefined;
+        const emit = (blockNumber: number) => {
+            if (isNaN(blockNumber) || blockNumber === lastHead) return;
+            lastHead = blockNumber;
+            callback(blockNumber);
+        };
+
+        return this.subscribe({
+            params: ['newHeads'],
+            onNotification: head => head?.number && emit(parseInt(head.number, 16)),
+            poll: async () => emit(parseInt(await this.send<string>('eth_blockNumber'), 16)),
+            poll_interval_ms: HEAD_POLL_INTERVAL_MS
+        });
+    }
+
+    /**
+     * Follows an `eth_subscribe` stream over the WebSocket endpoints, moving to
+     * the next one when a connection drops and polling over HTTP while none is
+     * connected or when no WebSocket endpoint is configured. Returns a
+     * function that ends the subscription.
+     */
+    subscribe(source: SubscriptionSource): () => void {
+        const subscription = new Subscription(this.options, source);
+        subscription.start();
+        return () => subscription.stop();
+    }
+
+    private async post(payload: unknown, methods: string[], cost: number): Promise<any> {
+        const tried = new Set<Endpoint>();
+        let lastError: unknown;
+
+        for (let attempt = 0; attempt <= this.options.max_retries; attempt++) {
+            if (attempt > 0) {
+                const delay = Math.min(this.options.retry_base_delay_ms * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+                // Jitter keeps parallel workers from retrying in lockstep
+                await sleep(delay / 2 + Math.random() * delay / 2);
+            }
+            await this.throttle(cost);
+
+            const endpoint = this.pickEndpoint(tried);
+            tried.add(endpoint);
+            const startedAt = Date.now();
+
+            try {
+                const response = await axios.post(endpoint.url, payload, {
+                    headers: { 'Content-Type': 'application/json' },
+                    timeout: this.options.timeout_ms
+                });
+
+                const transient = transientErrorOf(response.data);
+                if (!transient) {
+                    this.recordSuccess(endpoint, Date.now() - startedAt);
+                    return response.data;
+                }
+                lastError = new JsonRpcError(transient.code ?? -32603, transient.message || 'Request failed');
+            } catch (error) {
+                if (!isTransientTransportError(error)) {
+                    methods.forEach(method => rpcErrors.inc({ method }));
+                    throw error;
+                }
+                lastError = error;
+            }
+
+            methods.forEach(method => rpcErrors.inc({ method }));
+            this.recordFailure(endpoint);
+            logger.warn('RPC request failed', {
+                endpoint: describeEndpoint(endpoint.url),
+                methods,
+                attempt: attempt + 1,
+                reason: lastError instanceof Error ? lastError.message : String(lastError)
+            });
+        }
+
+        throw lastError;
+    }
+
+    // Prefers endpoints not tried yet for this request, then healthy ones by response time
+    private pickEndpoint(tried: Set<Endpoint>): Endpoint {
+        const untried = this.endpoints.filter(endpoint => !tried.has(endpoint));
+        const candidates = untried.length > 0 ? untried : this.endpoints;
+        const now = Date.now();
+
+        const healthy = candidates.filter(endpoint => endpoint.down_until <= now);
+        if (healthy.length === 0) {
+            // Everything is cooling down; the one that recovers first gets another chance
+            return candidates.reduce((best, endpoint) => endpoint.down_until < best.down_until ? endpoint : best);
+        }
+
+        // Endpoints without samples yet are tried before slower known ones
+        const score = (endpoint: Endpoint) => (endpoint.latency_ms ?? 0) * (1 + endpoint.consecutive_failures);
+        return healthy.reduce((best, endpoint) => score(endpoint) < score(best) ? endpoint : best);
+    }
+
+    private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+        endpoint.latency_ms = endpoint.latency_ms === null
+            ? latencyMs
+            : endpoint.latency_ms * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+        endpoint.consecutive_failures = 0;
+        endpoint.down_until = 0;
+    }
+
+    private recordFailure(endpoint: Endpoint): void {
+        endpoint.consecutive_failures++;
+        endpoint.down_until = Date.now()
+            + Math.min(COOLDOWN_BASE_MS * 2 ** (endpoint.consecutive_failures - 1), MAX_COOLDOWN_MS);
+    }
+
+    private async throttle(cost: number): Promise<void> {
+        const rate = this.options.requests_per_second;
+        if (rate <= 0) return;
+
+        // A batch larger than the bucket waits for a full bucket and leaves it in debt
+        const needed = Math.min(cost, rate);
+        for (;;) {
+            const now = Date.now();
+            this.tokens = Math.min(rate, this.tokens + (now - this.lastRefill) / 1000 * rate);
+            this.lastRefill = now;
+            if (this.tokens >= needed) {
+                this.tokens -= cost;
+                return;
+            }
+            await sleep((needed - this.tokens) / rate * 1000);
+        }
+    }
+}
+
+/**
+ * ethers provider whose requests all go through an `RpcClient`, for contract
+ * calls and the provider helpers.
+ */
+export class RpcProvider extends ethers.providers.StaticJsonRpcProvider {
+    private client: RpcClient;
+
+    constructor(client: RpcClient) {
+        super();
+        this.client = client;
+    }
+
+    send(method: string, params: Array<any>): Promise<any> {
+        return this.client.send(method, params);
+    }
+}
+
+class Subscription {
+    private options: RpcClientOptions;
+    private source: SubscriptionSource;
+    private name: string;
+    private socket?: WebSocket;
+    private nextUrl: number;
+    private reconnectAttempts: number;
+    private rejections: Map<string, number>;
+    private reconnectTimer?: NodeJS.Timeout;
+    private pollTimer?: NodeJS.Timeout;
+    private polling: boolean;
+    private stopped: boolean;
+
+    constructor(options: RpcClientOptions, source: SubscriptionSource) {
+        this.options = options;
+        this.source = source;
+        this.name = String(source.params[0]);
+        this.nextUrl = 0;
+        this.reconnectAttempts = 0;
+        this.rejections = new Map();
+        this.polling = false;
+        this.stopped = false;
+    }
+
+    start(): void {
+        if (this.options.ws_urls.length > 0) {
+            this.connect();
+        } else {
+            this.startPolling();
+        }
+    }
+
+    stop(): void {
+        this.stopped = true;
+        this.stopPolling();
+        clearTimeout(this.reconnectTimer);
+        this.socket?.close();
+        this.socket = undefined;
+    }
+
+    private connect(): void {
+        const urls = this.options.ws_urls.filter(url => (this.rejections.get(url) ?? 0) < MAX_SUBSCRIBE_REJECTIONS);
+        if (urls.length === 0) {
+            logger.warn('No WebSocket endpoint accepts the subscription, polling over HTTP instead', { subscription: this.name });
+            this.startPolling();
+            return;
+        }
+
+        const url = urls[this.nextUrl++ % urls.length];
+        const socket = new WebSocket(url, { handshakeTimeout: this.options.timeout_ms });
+        this.socket = socket;
+        let heartbeat: NodeJS.Timeout | undefined;
+        let rejected = false;
+
+        socket.on('open', () => {
+            socket.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_subscribe', params: this.source.params }));
+
+            let answered = true;
+            socket.on('pong', () => {
+                answered = true;
+            });
+            heartbeat = setInterval(() => {
+                if (!answered) {
+                    logger.warn('WebSocket endpoint stopped answering pings', { endpoint: describeEndpoint(url), subscription: this.name });
+                    socket.terminate();
+                    return;
+                }
+                answered = false;
+                socket.ping();
+            }, HEARTBEAT_INTERVAL_MS);
+        });
+
+        socket.on('message', data => {
+            let message: any;
+            try {
+                message = JSON.parse(data.toString());
+            } catch {
+                return;
+            }
+
+            if (message.id === 1) {
+                if (message.error) {
+                    logger.warn('WebSocket endpoint rejected the subscription', {
+                        endpoint: describeEndpoint(url),
+                        subscription: this.name,
+                        reason: message.error.message
+                    });
+                    rejected = true;
+                    this.rejections.set(url, (this.rejections.get(url) ?? 0) + 1);
+                    socket.close();
+                    return;
+                }
+                // Subscribed: polling is no longer needed
+                this.reconnectAttempts = 0;
+                this.rejections.delete(url);
+                this.stopPolling();
+                logger.info('Subscribed over WebSocket', { endpoint: describeEndpoint(url), subscription: this.name });
+            } else if (message.method === 'eth_subscription' && message.params?.result !== undefined) {
+                this.source.onNotification(message.params.result);
+            }
+        });
+
+        socket.on('error', error => {
+            logger.warn('WebSocket endpoint error', { endpoint: describeEndpoint(url), reason: error.message });
+        });
+
+        socket.on('close', () => {
+            clearInterval(heartbeat);
+            if (this.socket === socket) this.socket = undefined;
+            if (this.stopped) return;
+
+            // Keep going over HTTP until a WebSocket endpoint is back
+            this.startPolling();
+            // A rejection is no passing hiccup, so it is not retried quickly
+            const delay = rejected
+                ? MAX_RETRY_DELAY_MS
+                : Math.min(this.options.retry_base_delay_ms * 2 ** this.reconnectAttempts++, MAX_RETRY_DELAY_MS);
+            this.reconnectTimer = setTimeout(() => this.connect(), delay);
+        });
+    }
+
+    private startPolling(): void {
+        if (this.pollTimer || this.stopped) return;
+
+        const poll = async () => {
+            // A slow poll is not overlapped by the next one
+            if (this.polling) return;
+            this.polling = true;
+            try {
+                await this.source.poll();
+            } catch (error) {
+                logger.warn('Subscription poll failed', { subscription: this.name }, error);
+            } finally {
+                this.polling = false;
+            }
+        };
+        this.pollTimer = setInterval(poll, this.source.poll_interval_ms);
+        poll();
+    }
+
+    private stopPolling(): void {
+        clearInterval(this.pollTimer);
+        this.pollTimer = undefined;
+    }
+}
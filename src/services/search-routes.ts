@@ -0,0 +1,172 @@
+import { Router } from 'express';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { DatabaseService } from './database';
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+const MIN_TEXT_QUERY_LENGTH = 2;
+
+// Identifier matches always outrank name and symbol matches
+const EXACT_MATCH_RANK = 100;
+
+export type SearchResultType = 'block' | 'transaction' | 'address' | 'contract' | 'token';
+
+export interface SearchResult {
+    type: SearchResultType;
+    rank: number;
+    label: string;
+    [field: string]: unknown;
+}
+
+/**
+ * Works out what a search box input refers to and returns typed results,
+ * best match first.
+ */
+async function search(database: DatabaseService, query: string, limit: number): Promise<SearchResult[]> {
+    if (/^\d+$/.test(query)) {
+        const block = await database.getBlock(parseInt(query));
+        return block ? [{
+            type: 'block',
+            rank: EXACT_MATCH_RANK,
+            label: `Block #${block.number}`,
+            block_number: block.number,
+            hash: block.hash,
+            timestamp: block.timestamp
+        }] : [];
+    }
+
+    // A 32-byte hash is either a transaction or a block hash
+    if (ethers.utils.isHexString(query, 32)) {
+        const [transaction, block] = await Promise.all([
+            database.getTransaction(query.toLowerCase()),
+            database.getBlockByHash(query)
+        ]);
+        const results: SearchResult[] = [];
+        if (transaction) {
+            results.push({
+                type: 'transaction',
+                rank: EXACT_MATCH_RANK,
+                label: `Transaction ${transaction.hash}`,
+                hash: transaction.hash,
+                block_number: transaction.block_number
+            });
+        }
+        if (block) {
+            results.push({
+                type: 'block',
+                rank: EXACT_MATCH_RANK,
+                label: `Block #${block.number}`,
+                block_number: block.number,
+                hash: block.hash,
+                timestamp: block.timestamp
+            });
+        }
+        return results;
+    }
+
+    if (ethers.utils.isAddress(query)) {
+        return [await searchAddress(database, query)];
+    }
+
+    if (query.length < MIN_TEXT_QUERY_LENGTH) {
+        return [];
+    }
+
+    const [tokens, contracts] = await Promise.all([
+        database.searchTokens(query, limit),
+        database.searchVerifiedContracts(query, limit)
+    ]);
+
+    const results: SearchResult[] = tokens.map(token => ({
+        type: 'token',
+        rank: token.rank,
+        label: token.symbol ? `${token.name || token.symbol} (${token.symbol})` : token.name || token.address,
+        address: token.address,
+        name: token.name,
+        symbol: token.symbol,
+        token_type: token.token_type
+    }));
+
+    // A verified token is already listed as a token
+    const tokenAddresses = new Set(tokens.map(token => token.address.toLowerCase()));
+    for (const contract of contracts) {
+        if (tokenAddresses.has(contract.address.toLowerCase())) continue;
+        results.push({
+            type: 'contract',
+            rank: contract.rank,
+            label: contract.name,
+            address: contract.address,
+            name: contract.name,
+            is_verified: true
+        });
+    }
+
+    // Stable sort keeps tokens ahead of contracts of the same rank
+    return results.sort((a, b) => b.rank - a.rank).slice(0, limit);
+}
+
+async function searchAddress(database: DatabaseService, query: string): Promise<SearchResult> {
+    const address = ethers.utils.getAddress(query);
+    const [token, verification, deployment] = await Promise.all([
+        database.getToken(address),
+        database.getContractVerification(address),
+        database.getDeployedContract(address)
+    ]);
+
+    if (token) {
+        return {
+            type: 'token',
+            rank: EXACT_MATCH_RANK,
+            label: token.symbol ? `${token.name || token.symbol} (${token.symbol})` : token.name || address,
+            address,
+            name: token.name,
+            symbol: token.symbol,
+            token_type: token.token_type
+        };
+    }
+
+    if (verification?.is_verified || deployment) {
+        return {
+            type: 'contract',
+            rank: EXACT_MATCH_RANK,
+            label: verification?.is_verified ? verification.name : address,
+            address,
+            name: verification?.is_verified ? verification.name : null,
+            is_verified: verification?.is_verified || false
+        };
+    }
+
+    return {
+        type: 'address',
+        rank: EXACT_MATCH_RANK,
+        label: address,
+        address
+    };
+}
+
+export function setupSearchRoutes(database: DatabaseService): Router {
+    const router = Router();
+
+    // Classify a search box input and return ranked, typed results
+    router.get('/', async (req, res) => {
+        try {
+            const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+            const limit = Math.min(parseInt(req.query.limit as string) || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+
+            if (!query) {
+                res.status(400).json({ error: 'Missing search query' });
+                return;
+            }
+
+            const results = await search(database, query, limit);
+            res.json({ query, results });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error searching:', error);
+            res.status(500).json({ error: 'Failed to search', message: errorMessage });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { logger } from '../utils/logger';
+import { DatabaseService } from './database';
+import { isSignatureHash, methodName } from '../utils/signatures';
+
+export function setupSignatureRoutes(database: DatabaseService): Router {
+    const router = Router();
+
+    // Text signatures known for a 4-byte function selector or a 32-byte event topic, best guess first
+    router.get('/:selector', async (req, res) => {
+        try {
+            const selector = req.params.selector.toLowerCase();
+            if (!isSignatureHash(selector)) {
+                res.status(400).json({ error: 'Invalid selector, expected 4 or 32 bytes of hex' });
+                return;
+            }
+
+            const signatures = await database.getSignatures([selector]);
+            if (signatures.length === 0) {
+                res.status(404).json({ error: 'Signature not found' });
+                return;
+            }
+
+            res.json({
+                selector,
+                signatures: signatures.map(entry => ({
+                    name: methodName(entry.signature),
+                    signature: entry.signature,
+                    type: entry.type,
+                    source: entry.source
+                }))
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error looking up signature:', error);
+            res.status(500).json({ error: 'Failed to look up signature', message: errorMessage });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,107 @@
+import { Router } from 'express';
+import { logger } from '../utils/logger';
+import { DAILY_METRICS, DailyMetric, DatabaseService } from './database';
+
+const DEFAULT_DAILY_RANGE_DAYS = 30;
+const MAX_DAILY_RANGE_DAYS = 366;
+const SUMMARY_SAMPLE_BLOCKS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Metrics that are averages have no value on days without samples instead of zero
+const AVERAGE_METRICS: DailyMetric[] = ['average_base_fee', 'average_block_time'];
+
+function parseDay(value: unknown): Date | null | undefined {
+    if (value === undefined || value === '') return undefined;
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    const day = new Date(`${value}T00:00:00Z`);
+    return isNaN(day.getTime()) ? null : day;
+}
+
+function formatDay(day: Date): string {
+    return day.toISOString().slice(0, 10);
+}
+
+export function setupStatsRoutes(database: DatabaseService): Router {
+    const router = Router();
+
+    // Daily time series of one metric, one entry per UTC day including days without blocks
+    router.get('/daily', async (req, res) => {
+        try {
+            const metric = req.query.metric as DailyMetric;
+            if (!DAILY_METRICS.includes(metric)) {
+                res.status(400).json({ error: `Unknown metric, expected one of: ${DAILY_METRICS.join(', ')}` });
+                return;
+            }
+
+            const today = new Date(`${formatDay(new Date())}T00:00:00Z`);
+            const to = parseDay(req.query.to) ?? today;
+            const from = parseDay(req.query.from) ?? (to && new Date(to.getTime() - (DEFAULT_DAILY_RANGE_DAYS - 1) * DAY_MS));
+            if (!from || !to || from > to) {
+                res.status(400).json({ error: 'Invalid date range, expected from and to as YYYY-MM-DD' });
+                return;
+            }
+            if ((to.getTime() - from.getTime()) / DAY_MS + 1 > MAX_DAILY_RANGE_DAYS) {
+                res.status(400).json({ error: `Date range is limited to ${MAX_DAILY_RANGE_DAYS} days` });
+                return;
+            }
+
+            const stats = await database.getDailyStats(metric, formatDay(from), formatDay(to));
+            const values = new Map(stats.map(stat => [stat.day, stat.value]));
+            const empty = AVERAGE_METRICS.includes(metric) ? null : metric === 'gas_used' ? '0' : 0;
+
+            const results = [];
+            for (let day = from.getTime(); day <= to.getTime(); day += DAY_MS) {
+                const date = formatDay(new Date(day));
+                const value = values.get(date) ?? empty;
+                results.push({
+                    date,
+                    // Large sums stay strings; counts and averages are numbers
+                    value: typeof value === 'string' && metric !== 'gas_used' && metric !== 'average_base_fee'
+                        ? Number(value)
+                        : value
+                });
+            }
+
+            res.json({ metric, from: formatDay(from), to: formatDay(to), results });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting daily stats:', error);
+            res.status(500).json({ error: 'Failed to get daily stats', message: errorMessage });
+        }
+    });
+
+    // Homepage figures: throughput over recent blocks and chain-wide totals
+    router.get('/summary', async (req, res) => {
+        try {
+            const [recent, transactions, addresses, latestBlock] = await Promise.all([
+                database.getRecentBlocksSummary(SUMMARY_SAMPLE_BLOCKS),
+                database.countTransactions(),
+                database.countAddresses(),
+                database.getLatestBlock()
+            ]);
+
+            const span = recent.first_timestamp && recent.last_timestamp
+                ? (new Date(recent.last_timestamp).getTime() - new Date(recent.first_timestamp).getTime()) / 1000
+                : 0;
+
+            res.json({
+                latest_block: latestBlock?.number ?? null,
+                total_transactions: transactions.count,
+                total_transactions_is_estimate: transactions.is_estimate,
+                total_addresses: addresses.count,
+                total_addresses_is_estimate: addresses.is_estimate,
+                // Over the latest SUMMARY_SAMPLE_BLOCKS blocks
+                average_block_time: recent.block_count > 1 && span > 0 ? span / (recent.block_count - 1) : null,
+                tps: span > 0 ? recent.transaction_count / span : null,
+                sample_blocks: recent.block_count
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting stats summary:', error);
+            res.status(500).json({ error: 'Failed to get stats summary', message: errorMessage });
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { DatabaseService } from './database';
+import { CursorError, CursorList, parsePageRequest, toCursorPage } from '../utils/cursor';
+import config from '../config';
+
+const TOKEN_TRANSFERS: CursorList = { name: 'token_transfers', key: ['integer', 'integer'] };
+
+export function setupTokenRoutes(database: DatabaseService): Router {
+    const router = Router();
+
+    // Get token information
+    router.get('/:address', async (req, res) => {
+        try {
+            const { address } = req.params;
+
+            if (!ethers.utils.isAddress(address)) {
+                res.status(400).json({ error: 'Invalid token address' });
+                return;
+            }
+
+            const [token, holdersCount] = await Promise.all([
+                database.getToken(address),
+                database.getTokenHoldersCount(address)
+            ]);
+            if (!token) {
+                res.status(404).json({ error: 'Token not found' });
+                return;
+            }
+
+            res.json({
+                ...token,
+                holders_count: holdersCount
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting token:', error);
+            res.status(500).json({ error: 'Failed to get token', message: errorMessage });
+        }
+    });
+
+    // Get token transfers with pagination
+    router.get('/:address/transfers', async (req, res) => {
+        try {
+            const { address } = req.params;
+            const request = parsePageRequest(req.query, TOKEN_TRANSFERS, config.api.max_page_size);
+
+            if (!ethers.utils.isAddress(address)) {
+                res.status(400).json({ error: 'Invalid token address' });
+                return;
+            }
+
+            const [page, total] = await Promise.all([
+                database.getTokenTransfers(address, request),
+                database.countTokenTransfers(address)
+            ]);
+            res.json(toCursorPage(page, request, transfer => [transfer.block_number, transfer.log_index], total));
+        } catch (error: unknown) {
+            if (error instanceof CursorError) {
+                res.status(400).json({ error: error.message });
+                return;
+            }
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting token transfers:', error);
+            res.status(500).json({ error: 'Failed to get token transfers', message: errorMessage });
+        }
+    });
+
+
+    // Get token holders ranked by balance
+    router.get('/:address/holders', async (req, res) => {
+        try {
+            const { address } = req.params;
+            const limit = Math.min(parseInt(req.query.limit as string) || 10, config.api.max_page_size);
+            const offset = parseInt(req.query.offset as string) || 0;
+
+            if (!ethers.utils.isAddress(address)) {
+                res.status(400).json({ error: 'Invalid token address' });
+                return;
+            }
+
+            const [holders, totalCount] = await Promise.all([
+                database.getTokenHolders(address, limit, offset),
+                database.getTokenHoldersCount(address)
+            ]);
+
+            res.json({
+                results: holders,
+                total_count: totalCount
+            });
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error('Error getting token holders:', error);
+            res.status(500).json({ error: 'Failed to get token holders', message: errorMessage });
+        }
+    });
+
+    return router;
+}
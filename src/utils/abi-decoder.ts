@@ -0,0 +1,243 @@
+import { ethers } from 'ethers';
+import { EventLog } from '../services/database';
+import { eventFromSignature } from './signatures';
+
+export type DecodeSource = 'abi' | 'signature';
+
+export interface DecodedParam {
+    name: string;
+    type: string;
+    // Only set for event fields
+    indexed?: boolean;
+    value: unknown;
+}
+
+export interface DecodedCall {
+    method: string;
+    signature: string;
+    selector: string;
+    source: DecodeSource;
+    params: DecodedParam[];
+}
+
+export interface DecodedEvent {
+    event: string;
+    signature: string;
+    topic: string;
+    source: DecodeSource;
+    params: DecodedParam[];
+}
+
+// Widely used functions and events, tried when the contract has no verified ABI
+const KNOWN_SIGNATURES = [
+    'function transfer(address to, uint256 amount)',
+    'function transferFrom(address from, address to, uint256 amount)',
+    'function approve(address spender, uint256 amount)',
+    'function increaseAllowance(address spender, uint256 addedValue)',
+    'function decreaseAllowance(address spender, uint256 subtractedValue)',
+    'function mint(address to, uint256 amount)',
+    'function burn(uint256 amount)',
+    'function deposit()',
+    'function withdraw(uint256 amount)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+    'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+    'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+    'function setApprovalForAll(address operator, bool approved)',
+    'function transferOwnership(address newOwner)',
+    'function renounceOwnership()',
+    'function upgradeTo(address newImplementation)',
+    'function upgradeToAndCall(address newImplementation, bytes data)',
+    'function multicall(bytes[] data)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+    'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+    'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+    'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+    'event Deposit(address indexed dst, uint256 wad)',
+    'event Withdrawal(address indexed src, uint256 wad)',
+    'event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)',
+    'event Upgraded(address indexed implementation)',
+    'event BeaconUpgraded(address indexed beacon)',
+    'event AdminChanged(address previousAdmin, address newAdmin)'
+];
+
+// Decodes against fragments that are not part of any contract's interface
+const CODER = new ethers.utils.Interface([]);
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        groups.set(key(item), [...(groups.get(key(item)) || []), item]);
+    }
+    return groups;
+}
+
+const KNOWN_FRAGMENTS = KNOWN_SIGNATURES.map(signature => ethers.utils.Fragment.from(signature));
+const KNOWN_FUNCTIONS = groupBy(
+    KNOWN_FRAGMENTS.filter((fragment): fragment is ethers.utils.FunctionFragment => fragment.type === 'function'),
+    fragment => CODER.getSighash(fragment)
+);
+// ERC-20 and ERC-721 events share topics and differ only in which fields are indexed
+const KNOWN_EVENTS = groupBy(
+    KNOWN_FRAGMENTS.filter((fragment): fragment is ethers.utils.EventFragment => fragment.type === 'event'),
+    fragment => CODER.getEventTopic(fragment)
+);
+
+// JSON-friendly values: numbers as decimal strings, named tuples as objects
+function formatValue(type: ethers.utils.ParamType, value: any): unknown {
+    if (value instanceof ethers.utils.Indexed) {
+        // Indexed strings, bytes, arrays and tuples are only stored as their hash
+        return value.hash;
+    }
+    if (type.baseType === 'array') {
+        return (value as any[]).map(item => formatValue(type.arrayChildren, item));
+    }
+    if (type.baseType === 'tuple') {
+        const named = type.components.every(component => component.name);
+        if (!named) {
+            return type.components.map((component, i) => formatValue(component, value[i]));
+        }
+        return Object.fromEntries(type.components.map((component, i) => [component.name, formatValue(component, value[i])]));
+    }
+    return ethers.BigNumber.isBigNumber(value) ? value.toString() : value;
+}
+
+function formatParams(inputs: ethers.utils.ParamType[], values: ethers.utils.Result, withIndexed: boolean): DecodedParam[] {
+    return inputs.map((input, i) => ({
+        name: input.name || `arg${i}`,
+        type: input.format(ethers.utils.FormatTypes.sighash),
+        ...(withIndexed ? { indexed: Boolean(input.indexed) } : {}),
+        value: formatValue(input, values[i])
+    }));
+}
+
+function decodeCallWith(fragment: ethers.utils.FunctionFragment, input: string, source: DecodeSource): DecodedCall {
+    const values = CODER.decodeFunctionData(fragment, input);
+    return {
+        method: fragment.name,
+        signature: fragment.format(ethers.utils.FormatTypes.sighash),
+        selector: CODER.getSighash(fragment),
+        source,
+        params: formatParams(fragment.inputs, values, false)
+    };
+}
+
+function decodeEventWith(fragment: ethers.utils.EventFragment, log: EventLog, source: DecodeSource): DecodedEvent {
+    const topics = [log.topic0, log.topic1, log.topic2, log.topic3].filter((topic): topic is string => !!topic);
+    const indexedCount = fragment.inputs.filter(input => input.indexed).length;
+    if (topics.length !== indexedCount + 1) {
+        throw new Error(`Expected ${indexedCount + 1} topics, got ${topics.length}`);
+    }
+
+    const values = CODER.decodeEventLog(fragment, log.data, topics);
+    return {
+        event: fragment.name,
+        signature: fragment.format(ethers.utils.FormatTypes.sighash),
+        topic: CODER.getEventTopic(fragment),
+        source,
+        params: formatParams(fragment.inputs, values, true)
+    };
+}
+
+// The first fragment the data decodes with, or null
+function firstDecoded<F, T>(fragments: F[], decode: (fragment: F) => T): T | null {
+    for (const fragment of fragments) {
+        try {
+            return decode(fragment);
+        } catch {
+            // Same selector or topic with a different layout
+            continue;
+        }
+    }
+    return null;
+}
+
+/**
+ * Builds one interface out of several ABIs (a proxy's and its
+ * implementation's), keeping the first definition of each function, event and
+ * error. Returns null if none of them parse.
+ */
+export function buildInterface(abis: string[]): ethers.utils.Interface | null {
+    const fragments = new Map<string, ethers.utils.Fragment>();
+    for (const abi of abis) {
+        let parsed: ethers.utils.Fragment[];
+        try {
+            parsed = new ethers.utils.Interface(JSON.parse(abi)).fragments as ethers.utils.Fragment[];
+        } catch {
+            continue;
+        }
+        for (const fragment of parsed) {
+            if (fragment.type !== 'function' && fragment.type !== 'event' && fragment.type !== 'error') continue;
+            const key = `${fragment.type} ${fragment.format(ethers.utils.FormatTypes.sighash)}`;
+            if (!fragments.has(key)) {
+                fragments.set(key, fragment);
+            }
+        }
+    }
+    return fragments.size > 0 ? new ethers.utils.Interface([...fragments.values()]) : null;
+}
+
+export function getSelector(input: string): string | null {
+    return ethers.utils.isHexString(input) && ethers.utils.hexDataLength(input) >= 4
+        ? ethers.utils.hexDataSlice(input, 0, 4).toLowerCase()
+        : null;
+}
+
+/**
+ * Decodes transaction input with a contract's ABI, falling back to the
+ * well-known signatures and then to `signatures`, text signatures from the
+ * signature database in order of preference. Returns null for plain
+ * transfers and unknown selectors.
+ */
+export function decodeCall(
+    contractInterface: ethers.utils.Interface | null,
+    input: string,
+    signatures: string[] = []
+): DecodedCall | null {
+    const selector = getSelector(input);
+    if (!selector) return null;
+
+    if (contractInterface) {
+        try {
+            return decodeCallWith(contractInterface.getFunction(selector), input, 'abi');
+        } catch {
+            // Not in the ABI, or input that does not match it
+        }
+    }
+    return firstDecoded(KNOWN_FUNCTIONS.get(selector) || [], fragment => decodeCallWith(fragment, input, 'signature'))
+        ?? firstDecoded(signatures, signature =>
+            decodeCallWith(ethers.utils.FunctionFragment.from(signature), input, 'signature')
+        );
+}
+
+/**
+ * Decodes an event log with the emitting contract's ABI, falling back to the
+ * well-known signatures and then to `signatures` from the signature database.
+ * Returns null for anonymous and unknown events.
+ */
+export function decodeEvent(
+    contractInterface: ethers.utils.Interface | null,
+    log: EventLog,
+    signatures: string[] = []
+): DecodedEvent | null {
+    const topic = log.topic0?.toLowerCase();
+    if (!topic) return null;
+
+    if (contractInterface) {
+        try {
+            return decodeEventWith(contractInterface.getEvent(topic), log, 'abi');
+        } catch {
+            // Not in the ABI, or a log that does not match it
+        }
+    }
+    const indexedCount = [log.topic1, log.topic2, log.topic3].filter(topic => topic).length;
+    return firstDecoded(KNOWN_EVENTS.get(topic) || [], fragment => decodeEventWith(fragment, log, 'signature'))
+        ?? firstDecoded(signatures, signature => {
+            const fragment = eventFromSignature(signature, indexedCount);
+            if (!fragment) throw new Error(`${signature} has fewer than ${indexedCount} parameters`);
+            return decodeEventWith(fragment, log, 'signature');
+        });
+}
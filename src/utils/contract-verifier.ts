@@ -1,36 +1,296 @@
+import crypto from 'crypto';
 import { ethers } from 'ethers';
-import { ContractVerification, DatabaseService } from '../services/database';
+import { ContractVerification, ContractSource, DatabaseService } from '../services/database';
+import { BlockchainService } from '../services/blockchain';
 import { logger } from './logger';
-import config from '../config';
+import { compileStandardJson } from './solc-loader';
+import { verificationQueueSize } from './metrics';
+import { signaturesFromAbi } from './signatures';
 
-interface CompilationResult {
+interface BytecodeReference {
+    start: number;
+    length: number;
+}
+
+// `{ [file]: { [library]: [{ start, length }] } }` as emitted by solc
+type LinkReferences = Record<string, Record<string, BytecodeReference[]>>;
+
+export interface StandardJsonInput {
+    language: string;
+    sources: Record<string, { content: string }>;
+    settings?: {
+        optimizer?: { enabled?: boolean; runs?: number };
+        evmVersion?: string;
+        remappings?: string[];
+        libraries?: Record<string, Record<string, string>>;
+        [setting: string]: any;
+    };
+}
+
+export interface VerificationRequest {
+    // Either `Name` or `path/to/File.sol:Name`
+    name: string;
+    source_code?: string;
+    sources?: { filename: string; content: string }[];
+    standard_json?: StandardJsonInput | string;
+    optimization_used?: boolean;
+    optimization_runs?: number;
+    evm_version?: string;
+    remappings?: string[];
+    // Library name (optionally `path:Name`) to deployed address
+    libraries?: Record<string, string>;
+}
+
+export interface PreparedVerification {
+    input: StandardJsonInput;
+    contract_name: string;
+    contract_path: string | null;
+    primary_source: string;
+}
+
+export interface VerificationSubmission extends VerificationRequest {
+    address: string;
+    compiler_version: string;
+    constructor_arguments?: string;
+    license_type?: string;
+}
+
+export class VerificationInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VerificationInputError';
+    }
+}
+
+const OUTPUT_SELECTION = {
+    '*': {
+        '*': [
+            'abi',
+            'evm.bytecode.object',
+            'evm.bytecode.linkReferences',
+            'evm.deployedBytecode.object',
+            'evm.deployedBytecode.linkReferences',
+            'evm.deployedBytecode.immutableReferences'
+        ]
+    }
+};
+
+export interface CompilationResult {
+    path: string;
     abi: any[];
     bytecode: string;
+    deployedBytecode: string;
+    linkReferences: LinkReferences;
+    deployedLinkReferences: LinkReferences;
+    immutableReferences: Record<string, BytecodeReference[]>;
+}
+
+/**
+ * Turns a verification request into the Standard JSON Input that will be
+ * compiled. Accepts a full Standard JSON Input, a list of source files or a
+ * single `source_code` string; loose optimizer, EVM version, remapping and
+ * library fields are folded into the settings.
+ */
+export function prepareStandardJsonInput(request: VerificationRequest): PreparedVerification {
+    if (!request.name) {
+        throw new VerificationInputError('Contract name is required');
+    }
+
+    const separator = request.name.lastIndexOf(':');
+    const contractPath = separator >= 0 ? request.name.slice(0, separator) : null;
+    const contractName = separator >= 0 ? request.name.slice(separator + 1) : request.name;
+    if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(contractName)) {
+        throw new VerificationInputError(`Invalid contract name: ${contractName}`);
+    }
+
+    let input: StandardJsonInput;
+    if (request.standard_json) {
+        try {
+            input = typeof request.standard_json === 'string'
+                ? JSON.parse(request.standard_json)
+                : request.standard_json;
+        } catch (error) {
+            throw new VerificationInputError('standard_json is not valid JSON');
+        }
+        if (input.language && input.language !== 'Solidity') {
+            throw new VerificationInputError(`Unsupported language: ${input.language}`);
+        }
+    } else {
+        const sources: Record<string, { content: string }> = {};
+        if (Array.isArray(request.sources) && request.sources.length > 0) {
+            for (const source of request.sources) {
+                if (!source.filename || typeof source.content !== 'string') {
+                    throw new VerificationInputError('Every source needs a filename and content');
+                }
+                sources[source.filename] = { content: source.content };
+            }
+        } else if (request.source_code) {
+            sources[contractPath || `${contractName}.sol`] = { content: request.source_code };
+        }
+
+        input = {
+            language: 'Solidity',
+            sources,
+            settings: {
+                optimizer: {
+                    enabled: Boolean(request.optimization_used),
+                    runs: request.optimization_runs || 200
+                },
+                ...(request.evm_version ? { evmVersion: request.evm_version } : {}),
+                ...(request.remappings ? { remappings: request.remappings } : {})
+            }
+        };
+
+        if (request.libraries) {
+            input.settings!.libraries = buildLibrarySettings(request.libraries, Object.keys(sources));
+        }
+    }
+
+    if (!input.sources || Object.keys(input.sources).length === 0) {
+        throw new VerificationInputError('No source files provided');
+    }
+    if (contractPath && !input.sources[contractPath]) {
+        throw new VerificationInputError(`Source file ${contractPath} not found in the input`);
+    }
+
+    input.language = 'Solidity';
+    input.settings = { ...(input.settings || {}), outputSelection: OUTPUT_SELECTION };
+
+    const primaryPath = contractPath || Object.keys(input.sources).find(file =>
+        new RegExp(`\\b(contract|library)\\s+${contractName}\\b`).test(input.sources[file].content)
+    );
+
+    return {
+        input,
+        contract_name: contractName,
+        contract_path: contractPath,
+        primary_source: primaryPath ? input.sources[primaryPath].content : ''
+    };
+}
+
+// solc expects libraries grouped by the file that declares them; without a path the address is offered to every file
+function buildLibrarySettings(libraries: Record<string, string>, files: string[]): Record<string, Record<string, string>> {
+    const settings: Record<string, Record<string, string>> = {};
+
+    for (const [library, address] of Object.entries(libraries)) {
+        if (!ethers.utils.isAddress(address)) {
+            throw new VerificationInputError(`Invalid address for library ${library}`);
+        }
+
+        const separator = library.lastIndexOf(':');
+        const targets = separator >= 0 ? [library.slice(0, separator)] : files;
+        const name = separator >= 0 ? library.slice(separator + 1) : library;
+        for (const file of targets) {
+            settings[file] = { ...(settings[file] || {}), [name]: address };
+        }
+    }
+
+    return settings;
+}
+
+/**
+ * Validates a submission, stores it as a pending verification and starts
+ * verifying in the background. Returns the stored record, whose `guid` can be
+ * used to poll the outcome.
+ */
+export async function submitVerification(
+    database: DatabaseService,
+    blockchain: BlockchainService,
+    submission: VerificationSubmission
+): Promise<ContractVerification> {
+    if (!ethers.utils.isAddress(submission.address)) {
+        throw new VerificationInputError('Invalid contract address');
+    }
+    if (!submission.compiler_version) {
+        throw new VerificationInputError('Compiler version is required');
+    }
+
+    // Normalise every submission format into the Standard JSON Input that gets compiled
+    const prepared = prepareStandardJsonInput(submission);
+    const optimizer = prepared.input.settings?.optimizer;
+
+    const verification: ContractVerification = {
+        address: submission.address,
+        name: prepared.contract_name,
+        source_code: prepared.primary_source,
+        compiler_version: submission.compiler_version,
+        optimization_used: Boolean(optimizer?.enabled),
+        optimization_runs: optimizer?.runs || 200,
+        constructor_arguments: submission.constructor_arguments || '',
+        abi: '', // Will be populated during verification
+        verified_at: new Date(),
+        is_verified: false,
+        license_type: submission.license_type || '',
+        verification_status: 'pending',
+        standard_json: JSON.stringify(prepared.input),
+        contract_path: prepared.contract_path,
+        guid: crypto.randomBytes(25).toString('hex')
+    };
+
+    await database.insertContractVerification(verification);
+
+    // Start verification process
+    verificationQueueSize.inc();
+    verifyContract(verification, database, blockchain).catch((error: Error) => {
+        logger.error('Contract verification failed', { address: verification.address, guid: verification.guid }, error);
+    }).finally(() => verificationQueueSize.dec());
+
+    return verification;
 }
 
 export async function verifyContract(
     verification: ContractVerification,
-    database: DatabaseService
+    database: DatabaseService,
+    blockchain: BlockchainService
 ): Promise<void> {
+    const log = logger.child({ address: verification.address, guid: verification.guid });
     try {
         // Get deployed bytecode from chain
-        const provider = new ethers.providers.JsonRpcProvider(config.rpc.url);
-        const deployedBytecode = await provider.getCode(verification.address);
+        const deployedBytecode = await blockchain.getCode(verification.address);
+        if (deployedBytecode === '0x') {
+            throw new Error('No contract code at address');
+        }
+
+        // Compile the stored input; records from before Standard JSON support only have source_code
+        const prepared = verification.standard_json
+            ? {
+                input: JSON.parse(verification.standard_json) as StandardJsonInput,
+                contract_name: verification.name,
+                contract_path: verification.contract_path || null
+            }
+            : prepareStandardJsonInput({
+                name: verification.name,
+                source_code: verification.source_code,
+                optimization_used: verification.optimization_used,
+                optimization_runs: verification.optimization_runs
+            });
 
-        // Compile source code
-        const compilationResult = await compileContract(
-            verification.source_code,
+        const { target: compilationResult, output } = await compileContract(
+            prepared.input,
             verification.compiler_version,
-            verification.optimization_used,
-            verification.optimization_runs
+            prepared.contract_name,
+            prepared.contract_path
         );
 
         // Compare bytecodes
-        const bytecodeMatches = compareBytecode(
-            compilationResult.bytecode,
-            deployedBytecode,
-            verification.constructor_arguments
-        );
+        const bytecodeMatches = compareBytecode(compilationResult, deployedBytecode);
+
+        // Constructor arguments are whatever follows the compiled creation code in the deployment input
+        const creationInput = await getCreationInput(verification.address, database);
+        let constructorArguments = normalizeHex(verification.constructor_arguments || '');
+        if (bytecodeMatches && creationInput) {
+            const creationCode = normalizeHex(compilationResult.bytecode);
+            const deployedArguments = normalizeHex(creationInput).slice(creationCode.length);
+            if (constructorArguments && constructorArguments !== deployedArguments) {
+                await database.updateVerificationStatus(
+                    verification.address,
+                    'failure',
+                    'Constructor arguments do not match the deployment transaction'
+                );
+                return;
+            }
+            constructorArguments = deployedArguments;
+        }
 
         if (bytecodeMatches) {
             // Update verification with success
@@ -42,18 +302,32 @@ export async function verifyContract(
             // Store ABI
             await database.insertContractVerification({
                 ...verification,
+                constructor_arguments: constructorArguments,
                 abi: JSON.stringify(compilationResult.abi),
                 is_verified: true,
                 verification_status: 'success',
                 verified_at: new Date()
             });
 
+            // Store the files that were actually compiled
+            await storeCompiledSources(
+                database,
+                verification.address,
+                verification.compiler_version,
+                prepared.input,
+                output,
+                compilationResult
+            );
+
             // Detect and store interfaces
             await detectAndStoreInterfaces(
                 verification.address,
                 compilationResult.abi,
                 database
             );
+
+            // Name these selectors and topics wherever they show up, verified or not
+            await database.insertSignatures(signaturesFromAbi(compilationResult.abi), 'verified');
         } else {
             await database.updateVerificationStatus(
                 verification.address,
@@ -63,7 +337,7 @@ export async function verifyContract(
         }
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error during verification';
-        logger.error('Contract verification failed:', error);
+        log.error('Contract verification failed', error);
         await database.updateVerificationStatus(
             verification.address,
             'failure',
@@ -73,24 +347,143 @@ export async function verifyContract(
 }
 
 async function compileContract(
-    sourceCode: string,
+    input: StandardJsonInput,
+    compilerVersion: string,
+    contractName: string,
+    contractPath: string | null
+): Promise<{ target: CompilationResult; output: any }> {
+    const output = JSON.parse(await compileStandardJson(compilerVersion, JSON.stringify(input)));
+    const errors = (output.errors || []).filter((error: any) => error.severity === 'error');
+    if (errors.length > 0) {
+        throw new Error(`Compilation failed: ${errors.map((error: any) => error.formattedMessage || error.message).join('\n')}`);
+    }
+
+    const candidates = Object.entries<any>(output.contracts || {})
+        .filter(([path, contracts]) => contracts[contractName] && (!contractPath || path === contractPath))
+        .map(([path]) => path);
+
+    if (candidates.length === 0) {
+        throw new Error(`Contract ${contractName} not found in compilation output`);
+    }
+    if (candidates.length > 1) {
+        throw new Error(`Contract ${contractName} is defined in several files (${candidates.join(', ')}); use path:Name`);
+    }
+
+    return {
+        target: toCompilationResult(candidates[0], output.contracts[candidates[0]][contractName]),
+        output
+    };
+}
+
+function toCompilationResult(path: string, contract: any): CompilationResult {
+    return {
+        path,
+        abi: contract.abi,
+        bytecode: contract.evm.bytecode.object,
+        deployedBytecode: contract.evm.deployedBytecode.object,
+        linkReferences: contract.evm.bytecode.linkReferences || {},
+        deployedLinkReferences: contract.evm.deployedBytecode.linkReferences || {},
+        immutableReferences: contract.evm.deployedBytecode.immutableReferences || {}
+    };
+}
+
+/**
+ * Replaces the stored sources of `address` with the compiled input. The file
+ * holding the verified contract is primary and carries its artifacts; every
+ * other file carries the artifacts of the last contract it declares, which is
+ * conventionally the file's main contract.
+ */
+async function storeCompiledSources(
+    database: DatabaseService,
+    address: string,
     compilerVersion: string,
-    optimizationUsed: boolean,
-    optimizationRuns: number
-): Promise<CompilationResult> {
-    // This is a placeholder for actual compilation logic
-    // You would typically use solc or make an API call to a compilation service
-    throw new Error('Compilation not implemented');
-}
-
-function compareBytecode(
-    compiledBytecode: string,
-    deployedBytecode: string,
-    constructorArgs: string
-): boolean {
-    // Remove constructor arguments from deployed bytecode for comparison
-    const deployedBytecodeWithoutConstructor = deployedBytecode.replace(constructorArgs, '');
-    return compiledBytecode === deployedBytecodeWithoutConstructor;
+    input: StandardJsonInput,
+    output: any,
+    target: CompilationResult
+): Promise<void> {
+    const sources: ContractSource[] = Object.entries(input.sources).map(([filename, source]) => {
+        const isPrimary = filename === target.path;
+        const contracts = Object.entries<any>(output.contracts?.[filename] || {});
+        const artifact = isPrimary
+            ? target
+            : contracts.length > 0
+                ? toCompilationResult(filename, contracts[contracts.length - 1][1])
+                : null;
+
+        return {
+            address,
+            filename,
+            source_code: source.content,
+            compiler_version: compilerVersion,
+            abi: artifact ? JSON.stringify(artifact.abi) : '',
+            creation_bytecode: artifact ? artifact.bytecode : '',
+            deployed_bytecode: artifact ? artifact.deployedBytecode : '',
+            is_primary: isPrimary
+        };
+    });
+
+    await database.replaceContractSources(address, sources);
+}
+
+/**
+ * Compares compiled runtime code with the code on chain. Before comparing,
+ * the regions that legitimately differ are copied from the on-chain code into
+ * the compiled code: library addresses (placeholders until linked) and
+ * immutable values (zeros until the constructor runs). The trailing CBOR
+ * metadata, whose hash changes with comments and file paths, is ignored.
+ */
+export function compareBytecode(compiled: CompilationResult, deployedBytecode: string): boolean {
+    const onChain = normalizeHex(deployedBytecode);
+    let runtime = compiled.deployedBytecode.toLowerCase();
+
+    const references = [
+        ...Object.values(compiled.deployedLinkReferences).flatMap(libraries => Object.values(libraries).flat()),
+        ...Object.values(compiled.immutableReferences).flat()
+    ];
+    for (const { start, length } of references) {
+        runtime = runtime.slice(0, start * 2) + onChain.slice(start * 2, (start + length) * 2) + runtime.slice((start + length) * 2);
+    }
+
+    return stripMetadata(runtime) === stripMetadata(onChain);
+}
+
+/**
+ * Removes the CBOR-encoded metadata solc appends to runtime code. Its length
+ * is stored big-endian in the last two bytes.
+ */
+export function stripMetadata(bytecode: string): string {
+    if (bytecode.length < 4) return bytecode;
+
+    const metadataLength = parseInt(bytecode.slice(-4), 16);
+    const totalLength = (metadataLength + 2) * 2;
+    // CBOR metadata always starts with a map header (0xa1-0xa5)
+    const header = bytecode.slice(-totalLength, -totalLength + 2);
+    if (totalLength > bytecode.length || !/^a[1-5]$/.test(header)) {
+        return bytecode;
+    }
+    return bytecode.slice(0, -totalLength);
+}
+
+function normalizeHex(value: string): string {
+    return value.toLowerCase().replace(/^0x/, '');
+}
+
+/**
+ * Input that deployed the contract: the transaction data for direct
+ * deployments, or the init code of the CREATE call for factory deployments.
+ */
+async function getCreationInput(address: string, database: DatabaseService): Promise<string | null> {
+    const deployment = await database.getDeployedContract(address);
+    if (!deployment) return null;
+
+    if (deployment.creation_type === 'transaction') {
+        const transaction = await database.getTransaction(deployment.creation_transaction_hash);
+        return transaction?.input || null;
+    }
+
+    const internals = await database.getInternalTransactionsByTransaction(deployment.creation_transaction_hash);
+    const creation = internals.find(internal => internal.to_address === address.toLowerCase());
+    return creation?.input || null;
 }
 
 async function detectAndStoreInterfaces(
@@ -0,0 +1,143 @@
+/**
+ * Opaque keyset pagination cursors. A cursor holds the sort key of the row it
+ * was taken from, e.g. `[block_number, transaction_index]`, the direction to
+ * page in and the name of the list it belongs to; the lists decide which
+ * columns make up the key.
+ */
+
+export type CursorKey = (string | number | number[])[];
+
+export type CursorKeyPart = 'integer' | 'string' | 'integers';
+
+/**
+ * A paged list: its name and the shape of its sort key. Cursors are only
+ * accepted by the list that handed them out.
+ */
+export interface CursorList {
+    name: string;
+    key: CursorKeyPart[];
+}
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface Cursor {
+    key: CursorKey;
+    direction: CursorDirection;
+}
+
+export interface PageRequest {
+    cursor?: Cursor;
+    limit: number;
+}
+
+export interface ListPageRequest extends PageRequest {
+    list: CursorList;
+}
+
+// `has_more` tells whether further rows exist in the direction paged in
+export interface Page<T> {
+    results: T[];
+    has_more: boolean;
+}
+
+export interface RowCount {
+    count: number;
+    is_estimate: boolean;
+}
+
+export interface CursorPage<T> {
+    results: T[];
+    next_cursor: string | null;
+    prev_cursor: string | null;
+    total_count?: number;
+    total_is_estimate?: boolean;
+}
+
+export class CursorError extends Error {
+    constructor(message: string = 'Invalid cursor') {
+        super(message);
+        this.name = 'CursorError';
+    }
+}
+
+const DEFAULT_PAGE_SIZE = 10;
+
+function isKeyPart(part: unknown, type: CursorKeyPart): boolean {
+    switch (type) {
+        case 'integer':
+            return Number.isInteger(part);
+        case 'string':
+            return typeof part === 'string';
+        case 'integers':
+            return Array.isArray(part) && part.every(item => Number.isInteger(item));
+    }
+}
+
+export function encodeCursor(list: CursorList, key: CursorKey, direction: CursorDirection): string {
+    return Buffer.from(JSON.stringify({ l: list.name, k: key, d: direction })).toString('base64url');
+}
+
+/**
+ * Decodes a cursor handed out by `list`, rejecting cursors of other lists and
+ * keys that do not have the list's shape.
+ */
+export function decodeCursor(value: string, list: CursorList): Cursor {
+    let decoded: any;
+    try {
+        decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    } catch {
+        throw new CursorError();
+    }
+
+    if (decoded?.l !== list.name) {
+        throw new CursorError('Cursor belongs to a different list');
+    }
+    if (!Array.isArray(decoded.k) || decoded.k.length !== list.key.length
+        || !list.key.every((type, i) => isKeyPart(decoded.k[i], type))
+        || (decoded.d !== 'next' && decoded.d !== 'prev')) {
+        throw new CursorError();
+    }
+
+    return { key: decoded.k, direction: decoded.d };
+}
+
+/**
+ * Reads `cursor` and `limit` from a request query for `list`.
+ */
+export function parsePageRequest(
+    query: Record<string, unknown>,
+    list: CursorList,
+    maxLimit: number,
+    defaultLimit: number = DEFAULT_PAGE_SIZE
+): ListPageRequest {
+    const limit = Math.min(Math.max(parseInt(query.limit as string) || defaultLimit, 1), maxLimit);
+    const cursor = typeof query.cursor === 'string' && query.cursor !== ''
+        ? decodeCursor(query.cursor, list)
+        : undefined;
+    return { cursor, limit, list };
+}
+
+/**
+ * Adds the cursors of the neighbouring pages. Rows are in list order, so the
+ * first row leads to the previous page and the last one to the next page.
+ */
+export function toCursorPage<T>(
+    page: Page<T>,
+    request: ListPageRequest,
+    key: (row: T) => CursorKey,
+    total?: RowCount
+): CursorPage<T> {
+    const first = page.results[0];
+    const last = page.results[page.results.length - 1];
+    const pagingBack = request.cursor?.direction === 'prev';
+
+    const hasNext = pagingBack ? request.cursor !== undefined : page.has_more;
+    const hasPrev = pagingBack ? page.has_more : request.cursor !== undefined;
+
+    return {
+        results: page.results,
+        next_cursor: last && hasNext ? encodeCursor(request.list, key(last), 'next') : null,
+        prev_cursor: first && hasPrev ? encodeCursor(request.list, key(first), 'prev') : null,
+        ...(total ? { total_count: total.count, total_is_estimate: total.is_estimate } : {})
+    };
+}
@@ -0,0 +1,78 @@
+/**
+ * EIP-1559 fee calculations over indexed blocks, following what
+ * `eth_feeHistory` does in geth.
+ */
+
+export interface FeeBlock {
+    gas_used: string;
+    gas_limit: string;
+    base_fee_per_gas?: string | null;
+}
+
+export interface FeeTransaction {
+    gas_price: string;
+    gas_used: string;
+}
+
+const ELASTICITY_MULTIPLIER = 2n;
+const BASE_FEE_CHANGE_DENOMINATOR = 8n;
+
+/**
+ * Base fee of the block following `block`, or null before London.
+ */
+export function calculateNextBaseFee(block: FeeBlock): bigint | null {
+    if (block.base_fee_per_gas === undefined || block.base_fee_per_gas === null) return null;
+
+    const baseFee = BigInt(block.base_fee_per_gas);
+    const gasUsed = BigInt(block.gas_used);
+    const gasTarget = BigInt(block.gas_limit) / ELASTICITY_MULTIPLIER;
+    if (gasTarget === 0n || gasUsed === gasTarget) return baseFee;
+
+    if (gasUsed > gasTarget) {
+        const delta = baseFee * (gasUsed - gasTarget) / gasTarget / BASE_FEE_CHANGE_DENOMINATOR;
+        return baseFee + (delta > 0n ? delta : 1n);
+    }
+    const delta = baseFee * (gasTarget - gasUsed) / gasTarget / BASE_FEE_CHANGE_DENOMINATOR;
+    return baseFee - delta;
+}
+
+/**
+ * Priority fees paid in a block at each percentile, weighted by gas used like
+ * `eth_feeHistory` rewards. An empty block yields zeros.
+ */
+export function priorityFeePercentiles(block: FeeBlock, transactions: FeeTransaction[], percentiles: number[]): bigint[] {
+    const baseFee = BigInt(block.base_fee_per_gas || 0);
+    const rewards = transactions
+        .map(tx => {
+            const reward = BigInt(tx.gas_price) - baseFee;
+            return { reward: reward > 0n ? reward : 0n, gas_used: BigInt(tx.gas_used) };
+        })
+        .sort((a, b) => (a.reward < b.reward ? -1 : a.reward > b.reward ? 1 : 0));
+
+    if (rewards.length === 0) {
+        return percentiles.map(() => 0n);
+    }
+
+    const totalGas = rewards.reduce((sum, item) => sum + item.gas_used, 0n);
+    return percentiles.map(percentile => {
+        // Percentiles are scaled to basis points to stay in integer math
+        const threshold = totalGas * BigInt(Math.round(percentile * 100)) / 10000n;
+        let cumulative = 0n;
+        for (const item of rewards) {
+            cumulative += item.gas_used;
+            if (cumulative >= threshold) return item.reward;
+        }
+        return rewards[rewards.length - 1].reward;
+    });
+}
+
+export function gasUsedRatio(block: FeeBlock): number {
+    const gasLimit = Number(block.gas_limit);
+    return gasLimit > 0 ? Number(block.gas_used) / gasLimit : 0;
+}
+
+export function median(values: bigint[]): bigint {
+    if (values.length === 0) return 0n;
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return sorted[Math.floor((sorted.length - 1) / 2)];
+}
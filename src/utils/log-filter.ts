@@ -0,0 +1,29 @@
+import { EventLog, LogFilter } from '../services/database';
+
+export function formatLog(log: EventLog) {
+    return {
+        address: log.address,
+        topics: [log.topic0, log.topic1, log.topic2, log.topic3].filter(topic => topic),
+        data: log.data,
+        log_index: log.log_index,
+        block_number: log.block_number,
+        transaction_hash: log.transaction_hash,
+        transaction_index: log.transaction_index
+    };
+}
+
+/**
+ * In-memory counterpart of `DatabaseService.getLogs` filtering: addresses are
+ * OR-ed, each topic position matches any of its values, null matches anything.
+ */
+export function matchesLogFilter(log: EventLog, filter: Pick<LogFilter, 'addresses' | 'topics'>): boolean {
+    if (filter.addresses && filter.addresses.length > 0
+        && !filter.addresses.some(address => address.toLowerCase() === log.address.toLowerCase())) {
+        return false;
+    }
+
+    const logTopics = [log.topic0, log.topic1, log.topic2, log.topic3];
+    return (filter.topics || []).slice(0, 4).every((topic, position) =>
+        !topic || topic.length === 0 || topic.some(value => value.toLowerCase() === logTopics[position]?.toLowerCase())
+    );
+}
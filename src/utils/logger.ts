@@ -1,11 +1,167 @@
-export const logger = {
-    info: (message: string, ...args: any[]) => {
-        console.log(new Date().toISOString(), 'INFO:', message, ...args);
-    },
-    error: (message: string, ...args: any[]) => {
-        console.error(new Date().toISOString(), 'ERROR:', message, ...args);
-    },
-    warn: (message: string, ...args: any[]) => {
-        console.warn(new Date().toISOString(), 'WARN:', message, ...args);
-    }
-};
+import { AsyncLocalStorage } from 'async_hooks';
+import config, { LogLevel } from '../config';
+
+/**
+ * Leveled logger writing one JSON object per line, or readable lines for
+ * local development. Child loggers add fields such as `block_number` or
+ * `tx_hash` to everything they log, and `withLogContext` does the same for
+ * all logging done while handling one API request.
+ *
+ * Extra arguments become fields: errors are logged as `error`, plain objects
+ * are merged in and anything else is collected in `args`.
+ */
+
+export type LogContext = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Compared without case, dashes or underscores
+const REDACTED_KEYS = new Set([
+    'password', 'passwd', 'secret', 'authorization', 'cookie', 'setcookie',
+    'apikey', 'privatekey', 'mnemonic', 'accesstoken', 'refreshtoken', 'clientsecret'
+]);
+const REDACTED = '[REDACTED]';
+// user:password@ in connection strings and RPC URLs
+const URL_CREDENTIALS = /(\/\/[^/\s:@]+):[^/\s@]+@/g;
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+function isRedactedKey(key: string): boolean {
+    return REDACTED_KEYS.has(key.toLowerCase().replace(/[-_]/g, ''));
+}
+
+function serializeError(error: Error): LogContext {
+    const code = (error as { code?: unknown }).code;
+    return {
+        name: error.name,
+        message: redactString(error.message),
+        ...(code !== undefined ? { code } : {}),
+        stack: error.stack && redactString(error.stack)
+    };
+}
+
+function redactString(value: string): string {
+    return value.replace(URL_CREDENTIALS, `$1:${REDACTED}@`);
+}
+
+// Makes a value safe for JSON.stringify: bigints become strings, cycles and secrets are cut
+function sanitize(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+    if (typeof value === 'string') return redactString(value);
+    if (typeof value === 'bigint') return value.toString();
+    if (value === null || typeof value !== 'object') return value;
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Error) return serializeError(value);
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+        return value.map(item => sanitize(item, seen));
+    }
+    const result: LogContext = {};
+    for (const [key, item] of Object.entries(value)) {
+        result[key] = isRedactedKey(key) ? REDACTED : sanitize(item, seen);
+    }
+    return result;
+}
+
+function isPlainObject(value: unknown): value is LogContext {
+    if (value === null || typeof value !== 'object') return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function collectFields(args: unknown[]): LogContext {
+    const fields: LogContext = {};
+    const rest: unknown[] = [];
+    for (const arg of args) {
+        if (arg instanceof Error) {
+            fields.error = arg;
+        } else if (isPlainObject(arg)) {
+            Object.assign(fields, arg);
+        } else {
+            rest.push(arg);
+        }
+    }
+    if (rest.length > 0) {
+        fields.args = rest;
+    }
+    return fields;
+}
+
+function formatPretty(timestamp: string, level: LogLevel, message: string, fields: LogContext): string {
+    const { error, ...rest } = fields;
+    const pairs = Object.entries(rest).map(([key, value]) =>
+        `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`
+    );
+    let line = `${timestamp} ${level.toUpperCase().padEnd(5)} ${message}${pairs.length > 0 ? ` ${pairs.join(' ')}` : ''}`;
+    if (error && typeof error === 'object') {
+        const details = error as { stack?: string; message?: string };
+        line += `\n${details.stack || details.message}`;
+    } else if (error !== undefined) {
+        line += ` error=${JSON.stringify(error)}`;
+    }
+    return line;
+}
+
+export class Logger {
+    private context: LogContext;
+
+    constructor(context: LogContext = {}) {
+        this.context = context;
+    }
+
+    /**
+     * Returns a logger that adds `context` to every entry, on top of this
+     * logger's own context.
+     */
+    child(context: LogContext): Logger {
+        return new Logger({ ...this.context, ...context });
+    }
+
+    isLevelEnabled(level: LogLevel): boolean {
+        return LEVELS[level] >= LEVELS[config.logging.level];
+    }
+
+    debug(message: string, ...args: unknown[]): void {
+        this.write('debug', message, args);
+    }
+
+    info(message: string, ...args: unknown[]): void {
+        this.write('info', message, args);
+    }
+
+    warn(message: string, ...args: unknown[]): void {
+        this.write('warn', message, args);
+    }
+
+    error(message: string, ...args: unknown[]): void {
+        this.write('error', message, args);
+    }
+
+    private write(level: LogLevel, message: string, args: unknown[]): void {
+        if (!this.isLevelEnabled(level)) return;
+
+        const timestamp = new Date().toISOString();
+        const fields = sanitize({
+            ...contextStorage.getStore(),
+            ...this.context,
+            ...collectFields(args)
+        }) as LogContext;
+        const text = redactString(message);
+
+        const line = config.logging.format === 'json'
+            ? JSON.stringify({ timestamp, level, message: text, ...fields })
+            : formatPretty(timestamp, level, text, fields);
+        (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+    }
+}
+
+export const logger = new Logger();
+
+/**
+ * Runs `fn` with `context` added to everything logged until it and the work
+ * it starts finish, whichever logger is used.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+    return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
@@ -0,0 +1,124 @@
+import { Pool } from 'pg';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+/**
+ * Prometheus metrics served on `/metrics`. Services update the metrics below
+ * directly; values that already live elsewhere, like the database pool
+ * usage, are read when the registry is scraped.
+ */
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+export const chainHeadBlock = new Gauge({
+    name: 'indexer_chain_head_block',
+    help: 'Latest block number reported by the node',
+    registers: [registry]
+});
+
+export const indexedHeadBlock = new Gauge({
+    name: 'indexer_indexed_block',
+    help: 'Latest block number written to the database',
+    registers: [registry]
+});
+
+export const indexerLagBlocks = new Gauge({
+    name: 'indexer_lag_blocks',
+    help: 'Blocks between the chain head and the latest indexed block',
+    registers: [registry]
+});
+
+export const blocksProcessed = new Counter({
+    name: 'indexer_blocks_processed_total',
+    help: 'Blocks written to the database',
+    registers: [registry]
+});
+
+export const transactionsProcessed = new Counter({
+    name: 'indexer_transactions_processed_total',
+    help: 'Transactions written to the database',
+    registers: [registry]
+});
+
+export const blockProcessingSeconds = new Histogram({
+    name: 'indexer_block_processing_seconds',
+    help: 'Time taken to write one block and its derived data',
+    buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [registry]
+});
+
+export const rpcRequestSeconds = new Histogram({
+    name: 'indexer_rpc_request_seconds',
+    help: 'Duration of JSON-RPC requests to the node by method',
+    labelNames: ['method'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [registry]
+});
+
+export const rpcErrors = new Counter({
+    name: 'indexer_rpc_errors_total',
+    help: 'Failed JSON-RPC requests to the node by method',
+    labelNames: ['method'] as const,
+    registers: [registry]
+});
+
+export const httpRequestSeconds = new Histogram({
+    name: 'indexer_http_request_seconds',
+    help: 'Duration of API requests by route and status code',
+    labelNames: ['method', 'route', 'status'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [registry]
+});
+
+export const verificationQueueSize = new Gauge({
+    name: 'indexer_verification_queue_size',
+    help: 'Contract verifications submitted and not finished yet',
+    registers: [registry]
+});
+
+export const pendingTransactions = new Gauge({
+    name: 'indexer_pending_transactions',
+    help: 'Transactions seen in the mempool and not mined, dropped or replaced yet',
+    registers: [registry]
+});
+
+const pools = new Set<Pool>();
+
+function sumPools(read: (pool: Pool) => number): number {
+    let total = 0;
+    for (const pool of pools) {
+        total += read(pool);
+    }
+    return total;
+}
+
+new Gauge({
+    name: 'indexer_db_pool_connections',
+    help: 'Open database connections by state',
+    labelNames: ['state'] as const,
+    registers: [registry],
+    collect() {
+        this.set({ state: 'total' }, sumPools(pool => pool.totalCount));
+        this.set({ state: 'idle' }, sumPools(pool => pool.idleCount));
+    }
+});
+
+new Gauge({
+    name: 'indexer_db_pool_waiting_clients',
+    help: 'Queries waiting for a free database connection',
+    registers: [registry],
+    collect() {
+        this.set(sumPools(pool => pool.waitingCount));
+    }
+});
+
+/**
+ * Reports the usage of a connection pool until it is ended.
+ */
+export function observePool(pool: Pool): void {
+    pools.add(pool);
+}
+
+export function unobservePool(pool: Pool): void {
+    pools.delete(pool);
+}
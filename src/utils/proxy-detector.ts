@@ -0,0 +1,235 @@
+import { ethers } from 'ethers';
+import { ContractProxy, DatabaseService, EventLog, ProxyUpgrade } from '../services/database';
+import { BlockchainService } from '../services/blockchain';
+
+export interface ProxyDetection {
+    proxy_type: string;
+    implementation: string | null;
+    beacon_address: string | null;
+}
+
+export interface ProxyInfo extends ProxyDetection {
+    // Newest first
+    upgrades: ProxyUpgrade[];
+}
+
+export const UPGRADED_TOPIC = ethers.utils.id('Upgraded(address)');
+export const BEACON_UPGRADED_TOPIC = ethers.utils.id('BeaconUpgraded(address)');
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+// bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1)
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+// keccak256('PROXIABLE')
+const EIP1822_SLOT = '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7';
+// keccak256('org.zeppelinos.proxy.implementation'), used before EIP-1967
+const OPENZEPPELIN_SLOT = '0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3';
+
+const EIP1167_PATTERN = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+
+// implementation() of EIP-897 proxies and EIP-1967 beacons
+const IMPLEMENTATION_SELECTOR = '0x5c60da1b';
+// masterCopy() of Gnosis Safe proxies
+const MASTER_COPY_SELECTOR = '0xa619486e';
+
+const DELEGATECALL = 0xf4;
+const PUSH1 = 0x60;
+const PUSH32 = 0x7f;
+
+// Upgrade history returned with a proxy
+const MAX_UPGRADE_HISTORY = 100;
+
+// An address stored in a 32-byte word, or null when the word is empty or holds something else
+function wordToAddress(word: string): string | null {
+    if (ethers.utils.hexDataLength(word) !== 32 || !/^0x0{24}/.test(word)) return null;
+    const address = ethers.utils.hexDataSlice(word, 12).toLowerCase();
+    return address === ethers.constants.AddressZero ? null : address;
+}
+
+// Walks the opcodes so PUSH data is not mistaken for a DELEGATECALL
+function hasDelegateCall(code: string): boolean {
+    const bytes = ethers.utils.arrayify(code);
+    for (let i = 0; i < bytes.length; i++) {
+        const opcode = bytes[i];
+        if (opcode === DELEGATECALL) return true;
+        if (opcode >= PUSH1 && opcode <= PUSH32) {
+            i += opcode - PUSH1 + 1;
+        }
+    }
+    return false;
+}
+
+// The newest upgrade indexed after the proxy was detected that sets `field`
+function upgradedSince(
+    upgrades: ProxyUpgrade[],
+    field: 'implementation' | 'beacon_address',
+    proxy: ContractProxy
+): string | undefined {
+    return upgrades.find(upgrade => upgrade[field] !== null && upgrade.block_number > proxy.block_number)?.[field] ?? undefined;
+}
+
+async function callForAddress(
+    blockchain: BlockchainService,
+    to: string,
+    selector: string,
+    blockTag: number | string
+): Promise<string | null> {
+    try {
+        return wordToAddress(await blockchain.call(to, selector, blockTag));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Works out whether `code` belongs to a proxy and where it delegates to, as
+ * of `blockTag`. Checks, in order: EIP-1167 minimal proxies (the target is
+ * part of the code), the EIP-1967 implementation and beacon slots, the
+ * EIP-1822 and pre-1967 OpenZeppelin slots, then asks contracts that can
+ * DELEGATECALL for `masterCopy()` (Gnosis Safe) or `implementation()`
+ * (EIP-897). Returns null for anything else.
+ */
+export async function detectProxy(
+    blockchain: BlockchainService,
+    address: string,
+    code: string,
+    blockTag: number | string = 'latest'
+): Promise<ProxyDetection | null> {
+    const normalizedCode = code.toLowerCase();
+    if (normalizedCode === '0x') return null;
+
+    const minimalProxy = EIP1167_PATTERN.exec(normalizedCode);
+    if (minimalProxy) {
+        return { proxy_type: 'eip1167', implementation: `0x${minimalProxy[1]}`, beacon_address: null };
+    }
+
+    const [implementationSlot, beaconSlot, eip1822Slot, openZeppelinSlot] = (await blockchain.getStorageSlots(
+        address,
+        [EIP1967_IMPLEMENTATION_SLOT, EIP1967_BEACON_SLOT, EIP1822_SLOT, OPENZEPPELIN_SLOT],
+        blockTag
+    )).map(wordToAddress);
+
+    if (implementationSlot) {
+        return { proxy_type: 'eip1967', implementation: implementationSlot, beacon_address: null };
+    }
+    if (beaconSlot) {
+        const implementation = await callForAddress(blockchain, beaconSlot, IMPLEMENTATION_SELECTOR, blockTag);
+        return { proxy_type: 'eip1967_beacon', implementation, beacon_address: beaconSlot };
+    }
+    if (eip1822Slot) {
+        return { proxy_type: 'eip1822', implementation: eip1822Slot, beacon_address: null };
+    }
+    if (openZeppelinSlot) {
+        return { proxy_type: 'openzeppelin', implementation: openZeppelinSlot, beacon_address: null };
+    }
+
+    if (!hasDelegateCall(normalizedCode)) return null;
+
+    if (normalizedCode.includes(MASTER_COPY_SELECTOR.slice(2))) {
+        const masterCopy = await callForAddress(blockchain, address, MASTER_COPY_SELECTOR, blockTag);
+        if (masterCopy) {
+            return { proxy_type: 'gnosis_safe', implementation: masterCopy, beacon_address: null };
+        }
+    }
+    if (normalizedCode.includes(IMPLEMENTATION_SELECTOR.slice(2))) {
+        const implementation = await callForAddress(blockchain, address, IMPLEMENTATION_SELECTOR, blockTag);
+        if (implementation) {
+            return { proxy_type: 'eip897', implementation, beacon_address: null };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Extracts EIP-1967 `Upgraded` and `BeaconUpgraded` events from a block's
+ * logs. Any contract may emit them; they only matter for addresses known to
+ * be proxies, or for beacons, whose `Upgraded` event moves every proxy
+ * pointing at them.
+ */
+export function decodeProxyUpgrades(logs: EventLog[], timestamp: Date): ProxyUpgrade[] {
+    return logs
+        .filter(log => {
+            const topic0 = log.topic0?.toLowerCase();
+            return (topic0 === UPGRADED_TOPIC || topic0 === BEACON_UPGRADED_TOPIC) &&
+                log.topic1 && !log.topic2 && wordToAddress(log.topic1) !== null;
+        })
+        .map(log => {
+            const target = wordToAddress(log.topic1!);
+            const isBeaconUpgrade = log.topic0!.toLowerCase() === BEACON_UPGRADED_TOPIC;
+            return {
+                transaction_hash: log.transaction_hash,
+                log_index: log.log_index,
+                block_number: log.block_number,
+                proxy_address: log.address.toLowerCase(),
+                implementation: isBeaconUpgrade ? null : target,
+                beacon_address: isBeaconUpgrade ? target : null,
+                timestamp
+            };
+        });
+}
+
+/**
+ * Returns where a contract currently delegates to, or null if it is not a
+ * proxy. Contracts the indexer has not classified yet are detected against
+ * the node's latest state and remembered. Upgrade events indexed after the
+ * detection take precedence over it; beacon proxies ask their beacon, which
+ * owns the implementation.
+ */
+export async function resolveProxy(
+    database: DatabaseService,
+    blockchain: BlockchainService,
+    address: string,
+    code: string
+): Promise<ProxyInfo | null> {
+    let proxy: ContractProxy | null = await database.getContractProxy(address);
+    if (!proxy) {
+        const detection = await detectProxy(blockchain, address, code);
+        if (!detection) return null;
+
+        const latestBlock = await database.getLatestBlock();
+        proxy = {
+            address: address.toLowerCase(),
+            ...detection,
+            block_number: latestBlock?.number ?? 0,
+            detected_at: new Date()
+        };
+        await database.upsertContractProxy(proxy);
+    }
+
+    const upgrades = await database.getProxyUpgrades(address, MAX_UPGRADE_HISTORY);
+    // Minimal proxies cannot change, whatever events they emit
+    if (proxy.proxy_type === 'eip1167') {
+        return { proxy_type: proxy.proxy_type, implementation: proxy.implementation, beacon_address: null, upgrades };
+    }
+
+    const beaconAddress = upgradedSince(upgrades, 'beacon_address', proxy) ?? proxy.beacon_address;
+    let implementation = upgradedSince(upgrades, 'implementation', proxy) ?? proxy.implementation;
+    if (beaconAddress) {
+        implementation = await callForAddress(blockchain, beaconAddress, IMPLEMENTATION_SELECTOR, 'latest') ?? implementation;
+    }
+
+    return { proxy_type: proxy.proxy_type, implementation, beacon_address: beaconAddress, upgrades };
+}
+
+/**
+ * Where a proxy delegates to according to the index alone, without asking the
+ * node. Returns null for contracts not known to be proxies.
+ */
+export async function getIndexedImplementation(database: DatabaseService, address: string): Promise<string | null> {
+    const proxy = await database.getContractProxy(address);
+    if (!proxy || proxy.proxy_type === 'eip1167') {
+        return proxy?.implementation ?? null;
+    }
+
+    const upgrades = await database.getProxyUpgrades(address, MAX_UPGRADE_HISTORY);
+    const beaconAddress = upgradedSince(upgrades, 'beacon_address', proxy) ?? proxy.beacon_address;
+    if (!beaconAddress) {
+        return upgradedSince(upgrades, 'implementation', proxy) ?? proxy.implementation;
+    }
+
+    // A beacon announces new implementations with its own `Upgraded` event
+    const [beaconUpgrade] = await database.getProxyUpgrades(beaconAddress, 1);
+    const isNewer = beaconUpgrade && (beaconAddress !== proxy.beacon_address || beaconUpgrade.block_number > proxy.block_number);
+    return isNewer ? beaconUpgrade.implementation : proxy.implementation;
+}
@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { SignatureEntry } from '../services/database';
+
+export type ParsedSignature = Pick<SignatureEntry, 'hash' | 'signature' | 'type'>;
+
+const CODER = new ethers.utils.Interface([]);
+
+/**
+ * The selector (functions and errors) or topic (events) of a fragment and its
+ * canonical text form, e.g. `transfer(address,uint256)`.
+ */
+function describeFragment(fragment: ethers.utils.Fragment): ParsedSignature | null {
+    if (fragment.type === 'event') {
+        if ((fragment as ethers.utils.EventFragment).anonymous) return null;
+        const signature = fragment.format(ethers.utils.FormatTypes.sighash);
+        return { hash: CODER.getEventTopic(fragment as ethers.utils.EventFragment), signature, type: 'event' };
+    }
+    if (fragment.type === 'function' || fragment.type === 'error') {
+        const signature = fragment.format(ethers.utils.FormatTypes.sighash);
+        return { hash: ethers.utils.id(signature).slice(0, 10), signature, type: fragment.type };
+    }
+    // Constructors, fallback and receive functions have no selector
+    return null;
+}
+
+/**
+ * Every function, event and error signature declared by a JSON ABI.
+ */
+export function signaturesFromAbi(abi: string | any[]): ParsedSignature[] {
+    const contractInterface = new ethers.utils.Interface(typeof abi === 'string' ? JSON.parse(abi) : abi);
+    return contractInterface.fragments
+        .map(fragment => describeFragment(fragment))
+        .filter((signature): signature is ParsedSignature => signature !== null);
+}
+
+/**
+ * Parses one line of a signature list. Lines are text signatures such as
+ * `transfer(address,uint256)`, optionally prefixed with `function`, `event`
+ * or `error` (functions are assumed) and with parameter names; `#` starts a
+ * comment. Returns null for blank lines and throws on malformed ones.
+ */
+export function parseTextSignature(line: string): ParsedSignature | null {
+    const text = line.replace(/#.*$/, '').trim();
+    if (text === '') return null;
+
+    const prefixed = /^(function|event|error)\s/.test(text) ? text : `function ${text}`;
+    const parsed = describeFragment(ethers.utils.Fragment.from(prefixed));
+    if (!parsed) {
+        throw new Error(`Unsupported signature: ${text}`);
+    }
+    return parsed;
+}
+
+/**
+ * Turns a text event signature into a fragment with the first
+ * `indexedCount` parameters indexed. Text signatures do not say which fields
+ * are indexed, and indexed fields usually come first.
+ */
+export function eventFromSignature(signature: string, indexedCount: number): ethers.utils.EventFragment | null {
+    const fragment = ethers.utils.Fragment.from(`event ${signature}`) as ethers.utils.EventFragment;
+    if (indexedCount > fragment.inputs.length) return null;
+
+    return ethers.utils.EventFragment.fromObject({
+        type: 'event',
+        name: fragment.name,
+        anonymous: false,
+        inputs: fragment.inputs.map((input, i) => ({
+            ...JSON.parse(input.format(ethers.utils.FormatTypes.json)),
+            indexed: i < indexedCount
+        }))
+    });
+}
+
+// `transfer` for `transfer(address,uint256)`
+export function methodName(signature: string): string {
+    return signature.slice(0, signature.indexOf('('));
+}
+
+export function isSignatureHash(value: string): boolean {
+    return ethers.utils.isHexString(value, 4) || ethers.utils.isHexString(value, 32);
+}
@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { logger } from './logger';
+import config from '../config';
+
+const axios = require('axios');
+
+// soljson builds are large emscripten modules, so only a few are kept loaded
+const MAX_LOADED_COMPILERS = 3;
+
+// Loads one soljson build and answers `{ id, input }` with `{ id, output }` or `{ id, error }`
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const compiler = require(workerData.wrapper)(require(workerData.file));
+parentPort.on('message', ({ id, input }) => {
+    try {
+        parentPort.postMessage({ id, output: compiler.compile(input) });
+    } catch (error) {
+        parentPort.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+});
+`;
+
+interface WorkerReply {
+    id: number;
+    output?: string;
+    error?: string;
+}
+
+/**
+ * A solc-js build running in its own thread, so that compiling never blocks
+ * the event loop. Compilations run one at a time; one that exceeds its
+ * timeout ends the thread.
+ */
+class CompilerWorker {
+    private worker: Worker;
+    private queue: Promise<unknown>;
+    private nextId: number;
+    private current?: { id: number; resolve: (output: string) => void; reject: (error: Error) => void };
+    private stopped?: Error;
+    private onStop: () => void;
+
+    constructor(file: string, onStop: () => void) {
+        this.onStop = onStop;
+        this.worker = new Worker(WORKER_SOURCE, {
+            eval: true,
+            workerData: { file, wrapper: require.resolve('solc/wrapper') }
+        });
+        // Idle compilers do not keep the process alive
+        this.worker.unref();
+        this.queue = Promise.resolve();
+        this.nextId = 1;
+
+        this.worker.on('message', (reply: WorkerReply) => {
+            if (!this.current || reply.id !== this.current.id) return;
+            const { resolve, reject } = this.current;
+            this.current = undefined;
+            if (reply.error !== undefined) {
+                reject(new Error(reply.error));
+            } else {
+                resolve(reply.output!);
+            }
+        });
+        this.worker.on('error', error => this.stop(error));
+        this.worker.on('exit', code => this.stop(new Error(`Compiler worker exited with code ${code}`)));
+    }
+
+    compile(input: string, timeoutMs: number): Promise<string> {
+        const result = this.queue.then(() => this.run(input, timeoutMs));
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    // Ends the thread once the compilations queued so far are done
+    retire(): void {
+        this.queue.then(() => this.worker.terminate());
+    }
+
+    private run(input: string, timeoutMs: number): Promise<string> {
+        if (this.stopped) return Promise.reject(this.stopped);
+
+        return new Promise<string>((resolve, reject) => {
+            const id = this.nextId++;
+            const timer = setTimeout(() => {
+                this.stop(new Error(`Compilation timed out after ${timeoutMs} ms`));
+            }, timeoutMs);
+            this.current = {
+                id,
+                resolve: output => { clearTimeout(timer); resolve(output); },
+                reject: error => { clearTimeout(timer); reject(error); }
+            };
+            this.worker.postMessage({ id, input });
+        });
+    }
+
+    private stop(error: Error): void {
+        if (!this.stopped) {
+            this.stopped = error;
+            this.worker.terminate();
+            this.onStop();
+        }
+        this.current?.reject(error);
+        this.current = undefined;
+    }
+}
+
+const loadedCompilers = new Map<string, CompilerWorker>();
+const pendingLoads = new Map<string, Promise<CompilerWorker>>();
+
+/**
+ * Compiles standard JSON input with the solc-js build for `version`, which may
+ * be a full build name (`v0.8.19+commit.7dd6d404`) or a release number
+ * (`0.8.19`), and returns solc's JSON output. Builds are read from
+ * `verification.compiler_cache_dir` and only downloaded when missing, so a
+ * pre-seeded cache works without network access.
+ */
+export async function compileStandardJson(version: string, input: string): Promise<string> {
+    const compiler = await loadCompiler(version);
+    return compiler.compile(input, config.verification.compile_timeout_ms);
+}
+
+async function loadCompiler(version: string): Promise<CompilerWorker> {
+    const key = normalizeVersion(version);
+    const loaded = loadedCompilers.get(key);
+    if (loaded) {
+        // Most recently used last
+        loadedCompilers.delete(key);
+        loadedCompilers.set(key, loaded);
+        return loaded;
+    }
+
+    let pending = pendingLoads.get(key);
+    if (!pending) {
+        pending = resolveCompilerFile(key)
+            .then(file => {
+                const compiler: CompilerWorker = new CompilerWorker(file, () => {
+                    // A thread that timed out or crashed is replaced on next use
+                    if (loadedCompilers.get(key) === compiler) {
+                        loadedCompilers.delete(key);
+                    }
+                });
+                rememberCompiler(key, compiler);
+                return compiler;
+            })
+            .finally(() => pendingLoads.delete(key));
+        pendingLoads.set(key, pending);
+    }
+    return pending;
+}
+
+function normalizeVersion(version: string): string {
+    const trimmed = version.trim().replace(/^soljson-/, '').replace(/\.js$/, '');
+    if (!/^v?\d+\.\d+\.\d+(\+commit\.[0-9a-f]{8})?$/.test(trimmed)) {
+        throw new Error(`Invalid compiler version: ${version}`);
+    }
+    return trimmed.startsWith('v') ? trimmed : `v${trimmed}`;
+}
+
+function rememberCompiler(key: string, compiler: CompilerWorker): void {
+    loadedCompilers.set(key, compiler);
+    if (loadedCompilers.size > MAX_LOADED_COMPILERS) {
+        const oldest = loadedCompilers.keys().next().value as string;
+        loadedCompilers.get(oldest)!.retire();
+        loadedCompilers.delete(oldest);
+    }
+}
+
+async function resolveCompilerFile(version: string): Promise<string> {
+    const cacheDir = path.resolve(config.verification.compiler_cache_dir);
+    await fs.promises.mkdir(cacheDir, { recursive: true });
+
+    const cached = await findCachedBuild(cacheDir, version);
+    if (cached) return cached;
+
+    if (config.verification.offline) {
+        throw new Error(`Compiler ${version} is not in the cache at ${cacheDir} and downloads are disabled`);
+    }
+
+    const buildName = await resolveBuildName(version);
+    const target = path.join(cacheDir, buildName);
+    logger.info(`Downloading solc ${buildName}`);
+
+    const response = await axios.get(`${config.verification.compiler_base_url}/${buildName}`, {
+        responseType: 'arraybuffer',
+        timeout: 120000
+    });
+
+    // Write to a temporary file first so an interrupted download never looks like a cached build
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, Buffer.from(response.data));
+    await fs.promises.rename(temporary, target);
+    return target;
+}
+
+async function findCachedBuild(cacheDir: string, version: string): Promise<string | null> {
+    const files = await fs.promises.readdir(cacheDir);
+    const exact = `soljson-${version}.js`;
+    if (files.includes(exact)) {
+        return path.join(cacheDir, exact);
+    }
+
+    // A bare release number matches the release build (not nightlies) of that version
+    if (!version.includes('+')) {
+        const release = files.find(file => file.startsWith(`soljson-${version}+commit.`) && file.endsWith('.js'));
+        if (release) return path.join(cacheDir, release);
+    }
+
+    return null;
+}
+
+async function resolveBuildName(version: string): Promise<string> {
+    if (version.includes('+')) {
+        return `soljson-${version}.js`;
+    }
+
+    const response = await axios.get(`${config.verification.compiler_base_url}/list.json`, { timeout: 30000 });
+    const buildName = response.data?.releases?.[version.slice(1)];
+    if (!buildName) {
+        throw new Error(`Unknown compiler release: ${version}`);
+    }
+    return buildName;
+}
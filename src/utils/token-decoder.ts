@@ -0,0 +1,98 @@
+import { ethers } from 'ethers';
+import { EventLog, NftTransfer, TokenTransfer } from '../services/database';
+
+export const TRANSFER_TOPIC = ethers.utils.id('Transfer(address,address,uint256)');
+export const TRANSFER_SINGLE_TOPIC = ethers.utils.id('TransferSingle(address,address,address,uint256,uint256)');
+export const TRANSFER_BATCH_TOPIC = ethers.utils.id('TransferBatch(address,address,address,uint256[],uint256[])');
+
+function topicToAddress(topic: string): string {
+    return ethers.utils.hexDataSlice(topic, 12).toLowerCase();
+}
+
+/**
+ * Extracts ERC-20 transfers from a block's logs. ERC-20 and ERC-721 share the
+ * Transfer signature; ERC-20 keeps the amount in `data` while ERC-721 indexes
+ * the token ID as a third topic, so only logs with two indexed addresses and a
+ * single 32-byte word of data are treated as fungible transfers.
+ */
+export function decodeErc20Transfers(logs: EventLog[], timestamp: Date): TokenTransfer[] {
+    return logs
+        .filter(log =>
+            log.topic0?.toLowerCase() === TRANSFER_TOPIC &&
+            log.topic1 && log.topic2 && !log.topic3 &&
+            ethers.utils.hexDataLength(log.data) === 32
+        )
+        .map(log => ({
+            transaction_hash: log.transaction_hash,
+            log_index: log.log_index,
+            block_number: log.block_number,
+            token_address: log.address.toLowerCase(),
+            from_address: topicToAddress(log.topic1!),
+            to_address: topicToAddress(log.topic2!),
+            value: ethers.BigNumber.from(log.data).toString(),
+            timestamp
+        }));
+}
+
+/**
+ * Extracts ERC-721 `Transfer` (token ID as third topic) and ERC-1155
+ * `TransferSingle`/`TransferBatch` events. Batch transfers are expanded into
+ * one row per token ID, numbered by `batch_index`.
+ */
+export function decodeNftTransfers(logs: EventLog[], timestamp: Date): NftTransfer[] {
+    const transfers: NftTransfer[] = [];
+
+    for (const log of logs) {
+        const topic0 = log.topic0?.toLowerCase();
+        const base = {
+            transaction_hash: log.transaction_hash,
+            log_index: log.log_index,
+            block_number: log.block_number,
+            token_address: log.address.toLowerCase(),
+            timestamp
+        };
+
+        try {
+            if (topic0 === TRANSFER_TOPIC && log.topic1 && log.topic2 && log.topic3) {
+                transfers.push({
+                    ...base,
+                    batch_index: 0,
+                    token_id: ethers.BigNumber.from(log.topic3).toString(),
+                    from_address: topicToAddress(log.topic1),
+                    to_address: topicToAddress(log.topic2),
+                    amount: '1',
+                    token_type: 'ERC721'
+                });
+            } else if (topic0 === TRANSFER_SINGLE_TOPIC && log.topic2 && log.topic3) {
+                const [id, value] = ethers.utils.defaultAbiCoder.decode(['uint256', 'uint256'], log.data);
+                transfers.push({
+                    ...base,
+                    batch_index: 0,
+                    token_id: id.toString(),
+                    from_address: topicToAddress(log.topic2),
+                    to_address: topicToAddress(log.topic3),
+                    amount: value.toString(),
+                    token_type: 'ERC1155'
+                });
+            } else if (topic0 === TRANSFER_BATCH_TOPIC && log.topic2 && log.topic3) {
+                const [ids, values] = ethers.utils.defaultAbiCoder.decode(['uint256[]', 'uint256[]'], log.data);
+                ids.forEach((id: ethers.BigNumber, i: number) => {
+                    transfers.push({
+                        ...base,
+                        batch_index: i,
+                        token_id: id.toString(),
+                        from_address: topicToAddress(log.topic2!),
+                        to_address: topicToAddress(log.topic3!),
+                        amount: values[i].toString(),
+                        token_type: 'ERC1155'
+                    });
+                });
+            }
+        } catch (error) {
+            // Malformed event data from a non-compliant contract; nothing to index
+            continue;
+        }
+    }
+
+    return transfers;
+}
@@ -0,0 +1,111 @@
+import { ethers } from 'ethers';
+import { InternalTransaction } from '../services/database';
+
+// Frame returned by geth's `callTracer`
+export interface CallFrame {
+    type: string;
+    from: string;
+    to?: string;
+    value?: string;
+    gas?: string;
+    gasUsed?: string;
+    input?: string;
+    error?: string;
+    calls?: CallFrame[];
+}
+
+// Entry returned by OpenEthereum/Erigon/Nethermind `trace_block`
+export interface ParityTrace {
+    type: string;
+    action: {
+        callType?: string;
+        from?: string;
+        to?: string;
+        value?: string;
+        gas?: string;
+        input?: string;
+        init?: string;
+        address?: string;
+        refundAddress?: string;
+        balance?: string;
+    };
+    result?: {
+        gasUsed?: string;
+        address?: string;
+    } | null;
+    error?: string;
+    traceAddress: number[];
+    transactionHash?: string;
+}
+
+function quantity(value: string | undefined): string {
+    return value ? ethers.BigNumber.from(value).toString() : '0';
+}
+
+/**
+ * Flattens a `callTracer` tree into internal transactions. The root frame is
+ * the transaction itself and is not stored.
+ */
+export function parseCallTrace(
+    frame: CallFrame,
+    transactionHash: string,
+    blockNumber: number,
+    timestamp: Date
+): InternalTransaction[] {
+    const internals: InternalTransaction[] = [];
+
+    const walk = (call: CallFrame, traceAddress: number[]) => {
+        if (traceAddress.length > 0) {
+            internals.push({
+                transaction_hash: transactionHash,
+                trace_address: traceAddress,
+                block_number: blockNumber,
+                depth: traceAddress.length,
+                type: call.type.toLowerCase(),
+                from_address: call.from.toLowerCase(),
+                to_address: call.to?.toLowerCase() || null,
+                value: quantity(call.value),
+                gas: quantity(call.gas),
+                gas_used: quantity(call.gasUsed),
+                input: call.input || '0x',
+                error: call.error || null,
+                timestamp
+            });
+        }
+        (call.calls || []).forEach((child, i) => walk(child, [...traceAddress, i]));
+    };
+
+    walk(frame, []);
+    return internals;
+}
+
+/**
+ * Converts `trace_block` output into internal transactions, skipping block
+ * rewards and the top-level call of each transaction.
+ */
+export function parseParityTraces(traces: ParityTrace[], blockNumber: number, timestamp: Date): InternalTransaction[] {
+    return traces
+        .filter(trace => trace.transactionHash && trace.traceAddress.length > 0 && trace.type !== 'reward')
+        .map(trace => {
+            const { action, result } = trace;
+            const isCreate = trace.type === 'create';
+            const isSelfDestruct = trace.type === 'suicide';
+            const to = isCreate ? result?.address : isSelfDestruct ? action.refundAddress : action.to;
+
+            return {
+                transaction_hash: trace.transactionHash!,
+                trace_address: trace.traceAddress,
+                block_number: blockNumber,
+                depth: trace.traceAddress.length,
+                type: isSelfDestruct ? 'selfdestruct' : (action.callType || trace.type).toLowerCase(),
+                from_address: ((isSelfDestruct ? action.address : action.from) || '').toLowerCase(),
+                to_address: to ? to.toLowerCase() : null,
+                value: quantity(isSelfDestruct ? action.balance : action.value),
+                gas: quantity(action.gas),
+                gas_used: quantity(result?.gasUsed),
+                input: (isCreate ? action.init : action.input) || '0x',
+                error: trace.error || null,
+                timestamp
+            };
+        });
+}
@@ -0,0 +1,67 @@
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, shared, link-local, benchmarking, multicast and reserved ranges
+const NON_PUBLIC_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+    ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+    NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+    NON_PUBLIC_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 0) return false;
+    return !NON_PUBLIC_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Refuses URLs that are not http(s) or name a non-public IP address directly.
+ * Host names are checked when connecting, by `publicOnlyLookup`.
+ */
+export function assertPublicUrl(url: string): URL {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error(`Unsupported URL scheme: ${parsed.protocol.slice(0, -1)}`);
+    }
+    // IPv6 literals come bracketed
+    const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (net.isIP(host) && !isPublicAddress(host)) {
+        throw new Error(`Refusing to fetch from non-public address ${host}`);
+    }
+    return parsed;
+}
+
+/**
+ * A `lookup` for HTTP agents that fails when a host resolves to any
+ * non-public address. Checking at connect time, rather than resolving up
+ * front, leaves no window for the name to be re-pointed (DNS rebinding).
+ */
+export function publicOnlyLookup(
+    hostname: string,
+    options: dns.LookupOptions,
+    callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, '');
+            return;
+        }
+        const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+        if (blocked || addresses.length === 0) {
+            callback(new Error(`Refusing to fetch from ${hostname}, which resolves to non-public address ${blocked?.address}`), '');
+            return;
+        }
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+}
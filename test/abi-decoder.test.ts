@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { buildInterface, decodeCall, decodeEvent } from '../src/utils/abi-decoder';
+import { EventLog } from '../src/services/database';
+
+const SENDER = '0x1111111111111111111111111111111111111111';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+
+const ERC20 = new ethers.utils.Interface([
+    'function transfer(address recipient, uint256 value)',
+    'event Transfer(address indexed src, address indexed dst, uint256 wad)'
+]);
+const ERC20_ABI = ERC20.format(ethers.utils.FormatTypes.json) as string;
+const TRANSFER_INPUT = ERC20.encodeFunctionData('transfer', [RECIPIENT, 1000]);
+const TRANSFER_TOPIC = ethers.utils.id('Transfer(address,address,uint256)');
+
+const word = (address: string) => ethers.utils.hexZeroPad(address, 32);
+
+function log(topics: string[], data: string): EventLog {
+    return {
+        transaction_hash: '0x' + 'ab'.repeat(32),
+        log_index: 0,
+        block_number: 100,
+        transaction_index: 0,
+        address: TOKEN,
+        topic0: topics[0],
+        topic1: topics[1],
+        topic2: topics[2],
+        topic3: topics[3],
+        data
+    };
+}
+
+const erc20Transfer = log([TRANSFER_TOPIC, word(SENDER), word(RECIPIENT)], ethers.utils.defaultAbiCoder.encode(['uint256'], [1000]));
+
+describe('decodeCall', () => {
+    it('decodes with the contract ABI and its parameter names', () => {
+        const decoded = decodeCall(buildInterface([ERC20_ABI]), TRANSFER_INPUT);
+
+        assert.deepEqual(decoded, {
+            method: 'transfer',
+            signature: 'transfer(address,uint256)',
+            selector: '0xa9059cbb',
+            source: 'abi',
+            params: [
+                { name: 'recipient', type: 'address', value: RECIPIENT },
+                { name: 'value', type: 'uint256', value: '1000' }
+            ]
+        });
+    });
+
+    it('falls back to the well-known signatures without an ABI', () => {
+        const decoded = decodeCall(null, TRANSFER_INPUT);
+
+        assert.equal(decoded?.source, 'signature');
+        assert.deepEqual(decoded?.params.map(param => [param.name, param.value]), [['to', RECIPIENT], ['amount', '1000']]);
+    });
+
+    it('tries signature database entries in order, skipping ones that do not parse or fit', () => {
+        const input = new ethers.utils.Interface(['function stake(uint256 amount, bool locked)'])
+            .encodeFunctionData('stake', [5, true]);
+
+        const decoded = decodeCall(null, input, ['stake(uint256,', 'stake(uint256,bool)']);
+
+        assert.equal(decoded?.signature, 'stake(uint256,bool)');
+        assert.deepEqual(decoded?.params.map(param => [param.name, param.value]), [['arg0', '5'], ['arg1', true]]);
+    });
+
+    it('returns null for plain transfers and unknown selectors', () => {
+        assert.equal(decodeCall(null, '0x'), null);
+        assert.equal(decodeCall(null, '0xdeadbeef'), null);
+    });
+});
+
+describe('decodeEvent', () => {
+    it('decodes an ERC-20 Transfer with the contract ABI', () => {
+        const decoded = decodeEvent(buildInterface([ERC20_ABI]), erc20Transfer);
+
+        assert.equal(decoded?.source, 'abi');
+        assert.deepEqual(decoded?.params, [
+            { name: 'src', type: 'address', indexed: true, value: SENDER },
+            { name: 'dst', type: 'address', indexed: true, value: RECIPIENT },
+            { name: 'wad', type: 'uint256', indexed: false, value: '1000' }
+        ]);
+    });
+
+    it('tells ERC-20 and ERC-721 Transfer events apart by their topics', () => {
+        const nftTransfer = log([TRANSFER_TOPIC, word(SENDER), word(RECIPIENT), ethers.utils.hexZeroPad('0x07', 32)], '0x');
+
+        assert.deepEqual(decodeEvent(null, erc20Transfer)?.params.map(param => param.name), ['from', 'to', 'value']);
+        assert.deepEqual(decodeEvent(null, nftTransfer)?.params.map(param => [param.name, param.value]), [
+            ['from', SENDER],
+            ['to', RECIPIENT],
+            ['tokenId', '7']
+        ]);
+    });
+
+    it('indexes the leading parameters of a signature database entry', () => {
+        const swap = log(
+            [ethers.utils.id('Swap(address,uint256,uint256)'), word(SENDER)],
+            ethers.utils.defaultAbiCoder.encode(['uint256', 'uint256'], [1, 2])
+        );
+
+        const decoded = decodeEvent(null, swap, ['Swap(address,uint256,uint256)']);
+
+        assert.deepEqual(decoded?.params.map(param => [param.indexed, param.value]), [[true, SENDER], [false, '1'], [false, '2']]);
+    });
+
+    it('returns null for anonymous events', () => {
+        // An anonymous event has no signature topic; topic0 is its first indexed field
+        const anonymous = log([word(SENDER), word(RECIPIENT)], '0x');
+
+        assert.equal(decodeEvent(buildInterface([ERC20_ABI]), anonymous, ['Transfer(address,address,uint256)']), null);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CompilationResult, compareBytecode, stripMetadata } from '../src/utils/contract-verifier';
+
+// `PUSH1 0x80 PUSH1 0x40 MSTORE` followed by some code
+const CODE = '6080604052348015600f57600080fd5b50';
+
+// CBOR `{ ipfs: <34-byte multihash>, solc: 0.8.19 }` and its length, as solc appends it
+function metadata(ipfsHash: string): string {
+    return 'a264697066735822' + ipfsHash + '64736f6c63430008130033';
+}
+
+const METADATA = metadata('1220' + 'aa'.repeat(32));
+const OTHER_METADATA = metadata('1220' + 'bb'.repeat(32));
+
+function compiled(deployedBytecode: string, overrides: Partial<CompilationResult> = {}): CompilationResult {
+    return {
+        path: 'contracts/Token.sol',
+        abi: [],
+        bytecode: '',
+        deployedBytecode,
+        linkReferences: {},
+        deployedLinkReferences: {},
+        immutableReferences: {},
+        ...overrides
+    };
+}
+
+describe('stripMetadata', () => {
+    it('removes the trailing CBOR metadata', () => {
+        assert.equal(stripMetadata(CODE + METADATA), CODE);
+    });
+
+    it('leaves code without metadata alone', () => {
+        assert.equal(stripMetadata(CODE), CODE);
+        assert.equal(stripMetadata('00'), '00');
+    });
+});
+
+describe('compareBytecode', () => {
+    it('matches when only the metadata hash differs', () => {
+        assert.equal(compareBytecode(compiled(CODE + METADATA), '0x' + CODE + OTHER_METADATA), true);
+    });
+
+    it('matches immutables filled in by the constructor', () => {
+        // A 32-byte immutable right after the first 5 bytes of code
+        const owner = '000000000000000000000000' + 'ab'.repeat(20);
+        const result = compiled('7f' + '00'.repeat(32) + CODE + METADATA, {
+            immutableReferences: { '12': [{ start: 1, length: 32 }] }
+        });
+
+        assert.equal(compareBytecode(result, '0x7f' + owner + CODE + OTHER_METADATA), true);
+    });
+
+    it('matches linked library addresses', () => {
+        const placeholder = '__$' + '3c'.repeat(17) + '$__';
+        const library = 'CD'.repeat(20);
+        const result = compiled('73' + placeholder + CODE + METADATA, {
+            deployedLinkReferences: { 'contracts/Math.sol': { Math: [{ start: 1, length: 20 }] } }
+        });
+
+        assert.equal(compareBytecode(result, '0x73' + library + CODE + METADATA), true);
+    });
+
+    it('rejects code that differs outside the linked and immutable regions', () => {
+        const result = compiled('7f' + '00'.repeat(32) + CODE + METADATA, {
+            immutableReferences: { '12': [{ start: 1, length: 32 }] }
+        });
+        const tampered = CODE.slice(0, -2) + 'ff';
+
+        assert.equal(compareBytecode(result, '0x7f' + 'ee'.repeat(32) + tampered + METADATA), false);
+    });
+});
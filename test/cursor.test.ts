@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CursorError, CursorList, decodeCursor, encodeCursor, parsePageRequest, toCursorPage } from '../src/utils/cursor';
+
+const TRANSACTIONS: CursorList = { name: 'transactions', key: ['integer', 'integer'] };
+const INTERNAL_TRANSACTIONS: CursorList = { name: 'internal_transactions', key: ['integer', 'string', 'integers'] };
+const LOGS: CursorList = { name: 'logs', key: ['integer', 'integer'] };
+
+function rawCursor(payload: unknown): string {
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+describe('cursors', () => {
+    it('round-trip through encoding', () => {
+        const key = [19000000, '0x' + 'ab'.repeat(32), [0, 2]];
+        const cursor = encodeCursor(INTERNAL_TRANSACTIONS, key, 'prev');
+
+        assert.deepEqual(decodeCursor(cursor, INTERNAL_TRANSACTIONS), { key, direction: 'prev' });
+    });
+
+    it('are rejected by a list with the same key shape that did not issue them', () => {
+        const cursor = encodeCursor(TRANSACTIONS, [19000000, 4], 'next');
+
+        assert.throws(() => decodeCursor(cursor, LOGS), CursorError);
+    });
+
+    it('are rejected when tampered with', () => {
+        const tampered = [
+            'not a cursor',
+            rawCursor({ l: 'transactions', k: [19000000], d: 'next' }),
+            rawCursor({ l: 'transactions', k: [19000000, '4'], d: 'next' }),
+            rawCursor({ l: 'transactions', k: [19000000, 4.5], d: 'next' }),
+            rawCursor({ l: 'transactions', k: [19000000, 4, 1], d: 'next' }),
+            rawCursor({ l: 'transactions', k: [19000000, 4], d: 'sideways' }),
+            rawCursor({ k: [19000000, 4], d: 'next' }),
+            rawCursor(null)
+        ];
+        for (const cursor of tampered) {
+            assert.throws(() => decodeCursor(cursor, TRANSACTIONS), CursorError, cursor);
+        }
+        assert.throws(() => decodeCursor(rawCursor({ l: 'internal_transactions', k: [1, 'x', [0, 'a']], d: 'next' }), INTERNAL_TRANSACTIONS), CursorError);
+    });
+});
+
+describe('parsePageRequest', () => {
+    it('clamps the limit and decodes the cursor for the list', () => {
+        const cursor = encodeCursor(TRANSACTIONS, [5, 1], 'next');
+
+        assert.deepEqual(parsePageRequest({ limit: '500', cursor }, TRANSACTIONS, 100), {
+            cursor: { key: [5, 1], direction: 'next' },
+            limit: 100,
+            list: TRANSACTIONS
+        });
+        assert.equal(parsePageRequest({ limit: '-5' }, TRANSACTIONS, 100).limit, 1);
+        assert.equal(parsePageRequest({}, TRANSACTIONS, 100).limit, 10);
+    });
+
+    it('hands out cursors the same list accepts on the next request', () => {
+        const first = parsePageRequest({}, TRANSACTIONS, 100);
+        const page = toCursorPage({ results: [{ block: 7, index: 3 }, { block: 6, index: 0 }], has_more: true }, first, row => [row.block, row.index]);
+
+        assert.equal(page.prev_cursor, null);
+        assert.deepEqual(parsePageRequest({ cursor: page.next_cursor }, TRANSACTIONS, 100).cursor, { key: [6, 0], direction: 'next' });
+        assert.throws(() => parsePageRequest({ cursor: page.next_cursor }, LOGS, 100), CursorError);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateNextBaseFee, median, priorityFeePercentiles } from '../src/utils/fee-math';
+
+const GWEI = 1000000000n;
+
+describe('calculateNextBaseFee', () => {
+    // Vectors from geth's consensus/misc/eip1559 TestCalcBaseFee
+    const cases = [
+        { name: 'keeps the base fee when gas used equals the target', gas_used: '10000000', expected: 1000000000n },
+        { name: 'lowers the base fee when gas used is below the target', gas_used: '9000000', expected: 987500000n },
+        { name: 'raises the base fee when gas used is above the target', gas_used: '11000000', expected: 1012500000n },
+        { name: 'lowers the base fee by an eighth after an empty block', gas_used: '0', expected: 875000000n }
+    ];
+    for (const { name, gas_used, expected } of cases) {
+        it(name, () => {
+            assert.equal(calculateNextBaseFee({ gas_used, gas_limit: '20000000', base_fee_per_gas: '1000000000' }), expected);
+        });
+    }
+
+    it('raises a tiny base fee by at least one wei', () => {
+        assert.equal(calculateNextBaseFee({ gas_used: '10000001', gas_limit: '20000000', base_fee_per_gas: '7' }), 8n);
+    });
+
+    it('returns null before London', () => {
+        assert.equal(calculateNextBaseFee({ gas_used: '10000000', gas_limit: '20000000', base_fee_per_gas: null }), null);
+    });
+});
+
+describe('priorityFeePercentiles', () => {
+    const block = { gas_used: '142000', gas_limit: '30000000', base_fee_per_gas: (10n * GWEI).toString() };
+    const transactions = [
+        { gas_price: (15n * GWEI).toString(), gas_used: '21000' },
+        { gas_price: (11n * GWEI).toString(), gas_used: '21000' },
+        { gas_price: (12n * GWEI).toString(), gas_used: '100000' }
+    ];
+
+    it('weights rewards by gas used the way eth_feeHistory does', () => {
+        assert.deepEqual(priorityFeePercentiles(block, transactions, [0, 10, 50, 90, 100]), [GWEI, GWEI, 2n * GWEI, 5n * GWEI, 5n * GWEI]);
+    });
+
+    it('counts a price below the base fee as no reward', () => {
+        const underpriced = [{ gas_price: (9n * GWEI).toString(), gas_used: '21000' }];
+        assert.deepEqual(priorityFeePercentiles(block, underpriced, [50]), [0n]);
+    });
+
+    it('reports zeros for an empty block', () => {
+        assert.deepEqual(priorityFeePercentiles({ ...block, gas_used: '0' }, [], [25, 75]), [0n, 0n]);
+    });
+});
+
+describe('median', () => {
+    it('takes the lower middle value', () => {
+        assert.equal(median([3n, 1n, 2n]), 2n);
+        assert.equal(median([4n, 1n, 3n, 2n]), 2n);
+    });
+
+    it('is zero for no values', () => {
+        assert.equal(median([]), 0n);
+    });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { MempoolService } from '../src/services/mempool';
+import { BlockchainService } from '../src/services/blockchain';
+import { DatabaseService } from '../src/services/database';
+
+const SWEEP_INTERVAL_MS = 30 * 1000;
+const STALE_HASH = '0x' + 'ab'.repeat(32);
+
+function fakeDatabase(staleHashes: string[]) {
+    const calls = { seen: [] as string[][], dropped: [] as string[][], seenBefore: [] as Date[] };
+    const database = {
+        getStalePendingTransactions: async (seenBefore: Date) => {
+            calls.seenBefore.push(seenBefore);
+            return staleHashes;
+        },
+        markPendingTransactionsSeen: async (hashes: string[]) => {
+            calls.seen.push(hashes);
+        },
+        dropPendingTransactions: async (hashes: string[]) => {
+            calls.dropped.push(hashes);
+        },
+        sweepPendingTransactions: async () => staleHashes.length,
+        insertPendingTransactions: async () => 0
+    };
+    return { database: database as unknown as DatabaseService, calls };
+}
+
+function fakeBlockchain(known: Record<string, Partial<ethers.providers.TransactionResponse>>) {
+    const blockchain = {
+        subscribeToPendingTransactions: () => undefined,
+        unsubscribeFromPendingTransactions: () => undefined,
+        getTransactionsByHash: async (hashes: string[]) => hashes.map(hash => known[hash] ?? null)
+    };
+    return blockchain as unknown as BlockchainService;
+}
+
+// Lets the sweep started by a timer finish its awaits
+async function settle(): Promise<void> {
+    for (let i = 0; i < 10; i++) {
+        await new Promise(resolve => setImmediate(resolve));
+    }
+}
+
+describe('MempoolService', () => {
+    let mempool: MempoolService | undefined;
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['setInterval', 'Date'], now: Date.parse('2026-01-01T12:00:00Z') });
+    });
+
+    afterEach(() => {
+        mempool?.stop();
+        mempool = undefined;
+        mock.timers.reset();
+    });
+
+    it('keeps a long-pending transaction the node still has in its mempool', async () => {
+        const { database, calls } = fakeDatabase([STALE_HASH]);
+        mempool = new MempoolService(fakeBlockchain({ [STALE_HASH]: { hash: STALE_HASH, blockNumber: undefined } }), database);
+
+        mempool.start();
+        mock.timers.tick(SWEEP_INTERVAL_MS);
+        await settle();
+
+        assert.deepEqual(calls.seenBefore, [new Date('2026-01-01T11:00:30Z')]);
+        assert.deepEqual(calls.seen, [[STALE_HASH]]);
+        assert.deepEqual(calls.dropped, [[]]);
+    });
+
+    it('drops a stale transaction the node no longer knows', async () => {
+        const { database, calls } = fakeDatabase([STALE_HASH]);
+        mempool = new MempoolService(fakeBlockchain({}), database);
+
+        mempool.start();
+        mock.timers.tick(SWEEP_INTERVAL_MS);
+        await settle();
+
+        assert.deepEqual(calls.seen, [[]]);
+        assert.deepEqual(calls.dropped, [[STALE_HASH]]);
+    });
+});
@@ -0,0 +1,245 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+    BEACON_UPGRADED_TOPIC,
+    decodeProxyUpgrades,
+    detectProxy,
+    getIndexedImplementation,
+    ProxyDetection,
+    UPGRADED_TOPIC
+} from '../src/utils/proxy-detector';
+import { BlockchainService } from '../src/services/blockchain';
+import { ContractProxy, DatabaseService, EventLog, ProxyUpgrade } from '../src/services/database';
+
+const PROXY = '0x1111111111111111111111111111111111111111';
+const IMPLEMENTATION = '0x2222222222222222222222222222222222222222';
+const BEACON = '0x3333333333333333333333333333333333333333';
+const NEW_IMPLEMENTATION = '0x4444444444444444444444444444444444444444';
+const NEW_BEACON = '0x5555555555555555555555555555555555555555';
+
+// Slots as their EIPs define them, rather than copied from the detector
+const slotBelow = (label: string) => ethers.BigNumber.from(ethers.utils.id(label)).sub(1).toHexString();
+const IMPLEMENTATION_SLOT = slotBelow('eip1967.proxy.implementation');
+const BEACON_SLOT = slotBelow('eip1967.proxy.beacon');
+const EIP1822_SLOT = ethers.utils.id('PROXIABLE');
+const OPENZEPPELIN_SLOT = ethers.utils.id('org.zeppelinos.proxy.implementation');
+
+const IMPLEMENTATION_CALL = '0x5c60da1b';
+const MASTER_COPY_CALL = '0xa619486e';
+
+const word = (address: string) => ethers.utils.hexZeroPad(address, 32);
+
+// PUSH4 <selector> followed by a DELEGATECALL
+const delegatingCode = (selector: string) => '0x63' + selector.slice(2) + 'f4';
+
+function fakeBlockchain(storage: Record<string, string>, calls: Record<string, string> = {}) {
+    const blockchain = {
+        getStorageSlots: async (address: string, slots: string[]) => {
+            assert.equal(address, PROXY);
+            return slots.map(slot => storage[slot] ?? ethers.constants.HashZero);
+        },
+        call: async (to: string, data: string) => {
+            const result = calls[`${to}:${data}`];
+            if (!result) throw new Error('execution reverted');
+            return result;
+        }
+    };
+    return blockchain as unknown as BlockchainService;
+}
+
+describe('detectProxy', () => {
+    const cases: { name: string; code: string; storage?: Record<string, string>; calls?: Record<string, string>; expected: ProxyDetection | null }[] = [
+        {
+            name: 'reads the target of an EIP-1167 minimal proxy from its code',
+            code: '0x363d3d373d3d3d363d73' + IMPLEMENTATION.slice(2) + '5af43d82803e903d91602b57fd5bf3',
+            expected: { proxy_type: 'eip1167', implementation: IMPLEMENTATION, beacon_address: null }
+        },
+        {
+            name: 'decodes the EIP-1967 implementation slot',
+            code: '0x6080',
+            storage: { [IMPLEMENTATION_SLOT]: word(IMPLEMENTATION) },
+            expected: { proxy_type: 'eip1967', implementation: IMPLEMENTATION, beacon_address: null }
+        },
+        {
+            name: 'asks the beacon in the EIP-1967 beacon slot for the implementation',
+            code: '0x6080',
+            storage: { [BEACON_SLOT]: word(BEACON) },
+            calls: { [`${BEACON}:${IMPLEMENTATION_CALL}`]: word(IMPLEMENTATION) },
+            expected: { proxy_type: 'eip1967_beacon', implementation: IMPLEMENTATION, beacon_address: BEACON }
+        },
+        {
+            name: 'prefers the implementation slot over the beacon slot',
+            code: '0x6080',
+            storage: { [IMPLEMENTATION_SLOT]: word(IMPLEMENTATION), [BEACON_SLOT]: word(BEACON) },
+            expected: { proxy_type: 'eip1967', implementation: IMPLEMENTATION, beacon_address: null }
+        },
+        {
+            name: 'decodes the EIP-1822 slot',
+            code: '0x6080',
+            storage: { [EIP1822_SLOT]: word(IMPLEMENTATION) },
+            expected: { proxy_type: 'eip1822', implementation: IMPLEMENTATION, beacon_address: null }
+        },
+        {
+            name: 'decodes the pre-1967 OpenZeppelin slot',
+            code: '0x6080',
+            storage: { [OPENZEPPELIN_SLOT]: word(IMPLEMENTATION) },
+            expected: { proxy_type: 'openzeppelin', implementation: IMPLEMENTATION, beacon_address: null }
+        },
+        {
+            name: 'ignores a slot holding something other than an address',
+            code: '0x6080',
+            storage: { [IMPLEMENTATION_SLOT]: '0x' + 'ff'.repeat(32) },
+            expected: null
+        },
+        {
+            name: 'asks a delegating Gnosis Safe proxy for its master copy',
+            code: delegatingCode(MASTER_COPY_CALL),
+            calls: { [`${PROXY}:${MASTER_COPY_CALL}`]: word(IMPLEMENTATION) },
+            expected: { proxy_type: 'gnosis_safe', implementation: IMPLEMENTATION, beacon_address: null }
+        },
+        {
+            name: 'asks a delegating EIP-897 proxy for its implementation',
+            code: delegatingCode(IMPLEMENTATION_CALL),
+            calls: { [`${PROXY}:${IMPLEMENTATION_CALL}`]: word(IMPLEMENTATION) },
+            expected: { proxy_type: 'eip897', implementation: IMPLEMENTATION, beacon_address: null }
+        },
+        {
+            name: 'does not count a DELEGATECALL byte inside PUSH data',
+            // PUSH4 <implementation()> PUSH32 <0xf4...>
+            code: '0x635c60da1b7f' + 'f4'.repeat(32),
+            calls: { [`${PROXY}:${IMPLEMENTATION_CALL}`]: word(IMPLEMENTATION) },
+            expected: null
+        },
+        {
+            name: 'returns null for an account without code',
+            code: '0x',
+            expected: null
+        }
+    ];
+
+    for (const { name, code, storage = {}, calls = {}, expected } of cases) {
+        it(name, async () => {
+            assert.deepEqual(await detectProxy(fakeBlockchain(storage, calls), PROXY, code, 100), expected);
+        });
+    }
+});
+
+describe('decodeProxyUpgrades', () => {
+    const timestamp = new Date('2026-01-01T00:00:00Z');
+    const log = (index: number, topics: (string | undefined)[]): EventLog => ({
+        transaction_hash: '0x' + 'ab'.repeat(32),
+        log_index: index,
+        block_number: 100,
+        transaction_index: 0,
+        address: ethers.utils.getAddress(PROXY),
+        topic0: topics[0],
+        topic1: topics[1],
+        topic2: topics[2],
+        data: '0x'
+    });
+
+    it('keeps Upgraded and BeaconUpgraded events with a single address topic', () => {
+        const upgrades = decodeProxyUpgrades([
+            log(0, [UPGRADED_TOPIC, word(IMPLEMENTATION)]),
+            log(1, [BEACON_UPGRADED_TOPIC.toUpperCase().replace('0X', '0x'), word(BEACON)]),
+            // Same signature with an extra indexed argument
+            log(2, [UPGRADED_TOPIC, word(IMPLEMENTATION), word(BEACON)]),
+            log(3, [UPGRADED_TOPIC, '0x' + 'ff'.repeat(32)]),
+            log(4, [ethers.utils.id('Transfer(address,address,uint256)'), word(IMPLEMENTATION)])
+        ], timestamp);
+
+        assert.deepEqual(upgrades.map(upgrade => [upgrade.log_index, upgrade.proxy_address, upgrade.implementation, upgrade.beacon_address]), [
+            [0, PROXY, IMPLEMENTATION, null],
+            [1, PROXY, null, BEACON]
+        ]);
+        assert.equal(upgrades[0].timestamp, timestamp);
+    });
+});
+
+describe('getIndexedImplementation', () => {
+    const proxy = (overrides: Partial<ContractProxy>): ContractProxy => ({
+        address: PROXY,
+        proxy_type: 'eip1967',
+        implementation: IMPLEMENTATION,
+        beacon_address: null,
+        block_number: 100,
+        detected_at: new Date(),
+        ...overrides
+    });
+    const upgrade = (address: string, blockNumber: number, fields: Partial<ProxyUpgrade>): ProxyUpgrade => ({
+        transaction_hash: '0x' + 'cd'.repeat(32),
+        log_index: 0,
+        block_number: blockNumber,
+        proxy_address: address,
+        implementation: null,
+        beacon_address: null,
+        timestamp: new Date(),
+        ...fields
+    });
+
+    function fakeDatabase(stored: ContractProxy | null, upgrades: Record<string, ProxyUpgrade[]>) {
+        const database = {
+            getContractProxy: async () => stored,
+            // Newest first, like the real query
+            getProxyUpgrades: async (address: string, limit: number) => (upgrades[address] ?? []).slice(0, limit)
+        };
+        return database as unknown as DatabaseService;
+    }
+
+    const cases: { name: string; stored: ContractProxy | null; upgrades?: Record<string, ProxyUpgrade[]>; expected: string | null }[] = [
+        {
+            name: 'returns null for contracts not known to be proxies',
+            stored: null,
+            expected: null
+        },
+        {
+            name: 'keeps the target of a minimal proxy whatever it emits',
+            stored: proxy({ proxy_type: 'eip1167' }),
+            upgrades: { [PROXY]: [upgrade(PROXY, 200, { implementation: NEW_IMPLEMENTATION })] },
+            expected: IMPLEMENTATION
+        },
+        {
+            name: 'follows an upgrade indexed after the detection',
+            stored: proxy({}),
+            upgrades: { [PROXY]: [upgrade(PROXY, 200, { implementation: NEW_IMPLEMENTATION })] },
+            expected: NEW_IMPLEMENTATION
+        },
+        {
+            name: 'ignores upgrades the detection already saw',
+            stored: proxy({}),
+            upgrades: { [PROXY]: [upgrade(PROXY, 100, { implementation: NEW_IMPLEMENTATION })] },
+            expected: IMPLEMENTATION
+        },
+        {
+            name: 'lets the beacon upgrade a beacon proxy, over the proxy\'s own Upgraded events',
+            stored: proxy({ proxy_type: 'eip1967_beacon', beacon_address: BEACON }),
+            upgrades: {
+                [PROXY]: [upgrade(PROXY, 300, { implementation: IMPLEMENTATION })],
+                [BEACON]: [upgrade(BEACON, 200, { implementation: NEW_IMPLEMENTATION })]
+            },
+            expected: NEW_IMPLEMENTATION
+        },
+        {
+            name: 'keeps the detected implementation when the beacon has not changed since',
+            stored: proxy({ proxy_type: 'eip1967_beacon', beacon_address: BEACON }),
+            upgrades: { [BEACON]: [upgrade(BEACON, 50, { implementation: NEW_IMPLEMENTATION })] },
+            expected: IMPLEMENTATION
+        },
+        {
+            name: 'takes the implementation of a beacon the proxy switched to',
+            stored: proxy({ proxy_type: 'eip1967_beacon', beacon_address: BEACON }),
+            upgrades: {
+                [PROXY]: [upgrade(PROXY, 200, { beacon_address: NEW_BEACON })],
+                [NEW_BEACON]: [upgrade(NEW_BEACON, 50, { implementation: NEW_IMPLEMENTATION })]
+            },
+            expected: NEW_IMPLEMENTATION
+        }
+    ];
+
+    for (const { name, stored, upgrades = {}, expected } of cases) {
+        it(name, async () => {
+            assert.equal(await getIndexedImplementation(fakeDatabase(stored, upgrades), PROXY), expected);
+        });
+    }
+});
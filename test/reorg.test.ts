@@ -0,0 +1,280 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { IndexerService, ReorgEvent } from '../src/services/indexer';
+import { BlockchainService } from '../src/services/blockchain';
+import { Block, ChainReorg, DatabaseService, IndexedBlock } from '../src/services/database';
+
+const SENDER = '0x1111111111111111111111111111111111111111';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+
+interface ChainBlock {
+    number: number;
+    hash: string;
+    parentHash: string;
+}
+
+// Blocks `from`..`to` of branch `name`, built on top of `parent`
+function branch(name: string, from: number, to: number, parent: ChainBlock | null): ChainBlock[] {
+    const blocks: ChainBlock[] = [];
+    let parentHash = parent ? parent.hash : ethers.constants.HashZero;
+    for (let number = from; number <= to; number++) {
+        const hash = ethers.utils.id(`${name}-${number}`);
+        blocks.push({ number, hash, parentHash });
+        parentHash = hash;
+    }
+    return blocks;
+}
+
+// The node starts out at `head` and serves the canonical chain from there on
+function fakeBlockchain(canonical: ChainBlock[], head: number) {
+    const byNumber = new Map(canonical.map(block => [block.number, block]));
+    let onBlock: ((blockNumber: number) => Promise<void>) | undefined;
+    const blockchain = {
+        isConnected: async () => true,
+        getLatestBlockNumber: async () => head,
+        subscribeToNewBlocks: (callback: (blockNumber: number) => Promise<void>) => {
+            onBlock = callback;
+        },
+        unsubscribeFromNewBlocks: () => undefined,
+        getBlock: async (blockNumber: number) => byNumber.get(blockNumber),
+        getBlocksWithTransactions: async (blockNumbers: number[]) => blockNumbers.map(blockNumber => ({
+            ...byNumber.get(blockNumber)!,
+            timestamp: 1767225600 + blockNumber * 12,
+            transactions: [],
+            gasUsed: ethers.BigNumber.from(0),
+            gasLimit: ethers.BigNumber.from(30000000)
+        })),
+        getBlockReceipts: async () => new Map(),
+        traceBlocks: async (blocks: unknown[]) => blocks.map(() => [])
+    };
+    return {
+        blockchain: blockchain as unknown as BlockchainService,
+        // Announces a new head the way the block subscription would
+        announce: (blockNumber: number) => {
+            head = blockNumber;
+            return onBlock!(blockNumber);
+        }
+    };
+}
+
+function fakeDatabase(indexed: ChainBlock[]) {
+    const stored = new Map<number, Block>(indexed.map(block => [block.number, {
+        number: block.number,
+        hash: block.hash,
+        parent_hash: block.parentHash,
+        timestamp: new Date(),
+        transactions_count: 0,
+        gas_used: '0',
+        gas_limit: '30000000'
+    }]));
+    const calls: string[] = [];
+    const reorgs: ChainReorg[] = [];
+    const database = {
+        getLatestBlock: async () => stored.get(Math.max(...stored.keys())) ?? null,
+        getBlock: async (blockNumber: number) => stored.get(blockNumber) ?? null,
+        insertBlockData: async (data: IndexedBlock) => {
+            calls.push(`insert ${data.block.number}`);
+            stored.set(data.block.number, data.block);
+        },
+        deleteBlocksAfter: async (ancestor: number) => {
+            calls.push(`delete after ${ancestor}`);
+            const orphaned = [...stored.values()].filter(block => block.number > ancestor);
+            orphaned.forEach(block => stored.delete(block.number));
+            return orphaned.sort((a, b) => a.number - b.number);
+        },
+        insertReorg: async (reorg: ChainReorg) => {
+            calls.push('insert reorg');
+            reorgs.push(reorg);
+        }
+    };
+    return { database: database as unknown as DatabaseService, stored, calls, reorgs };
+}
+
+async function startIndexer(blockchain: BlockchainService, database: DatabaseService) {
+    const indexer = new IndexerService(blockchain, database);
+    const events: string[] = [];
+    const reorgs: ReorgEvent[] = [];
+    indexer.on('reorg', event => {
+        events.push('reorg');
+        reorgs.push(event);
+    });
+    indexer.on('block', data => events.push(`block ${data.block.number}`));
+    await indexer.start();
+    return { indexer, events, reorgs };
+}
+
+describe('IndexerService reorg handling', () => {
+    let indexer: IndexerService | undefined;
+
+    afterEach(async () => {
+        await indexer?.stop();
+        indexer = undefined;
+    });
+
+    it('finds the common ancestor, rolls back above it and re-indexes the canonical branch', async () => {
+        const shared = branch('a', 0, 7, null);
+        const orphanedBranch = branch('a', 8, 10, shared[7]);
+        const newBranch = branch('b', 8, 11, shared[7]);
+        const db = fakeDatabase([...shared, ...orphanedBranch]);
+        const chain = fakeBlockchain([...shared, ...newBranch], 10);
+
+        const started = await startIndexer(chain.blockchain, db.database);
+        indexer = started.indexer;
+        await chain.announce(11);
+
+        assert.deepEqual(db.calls, ['delete after 7', 'insert 8', 'insert 9', 'insert 10', 'insert 11', 'insert reorg']);
+        assert.deepEqual(started.events, ['reorg', 'block 8', 'block 9', 'block 10', 'block 11']);
+        assert.deepEqual(started.reorgs, [{
+            common_ancestor: 7,
+            depth: 3,
+            orphaned_hashes: orphanedBranch.map(block => block.hash)
+        }]);
+        assert.equal(db.reorgs.length, 1);
+        assert.equal(db.reorgs[0].common_ancestor, 7);
+        assert.equal(db.reorgs[0].depth, 3);
+        assert.deepEqual(db.reorgs[0].old_hashes, orphanedBranch.map(block => block.hash));
+        assert.deepEqual(db.reorgs[0].new_hashes, newBranch.slice(0, 3).map(block => block.hash));
+        assert.equal(indexer.getLastProcessedBlock(), 11);
+    });
+
+    it('stops the ancestor search at the first block that was never indexed', async () => {
+        const orphanedBranch = branch('a', 5, 10, null);
+        const canonical = branch('b', 0, 11, null);
+        const db = fakeDatabase(orphanedBranch);
+        const chain = fakeBlockchain(canonical, 10);
+
+        const started = await startIndexer(chain.blockchain, db.database);
+        indexer = started.indexer;
+        await chain.announce(11);
+
+        assert.deepEqual(db.calls, [
+            'delete after 4',
+            'insert 5', 'insert 6', 'insert 7', 'insert 8', 'insert 9', 'insert 10', 'insert 11',
+            'insert reorg'
+        ]);
+        assert.equal(db.reorgs[0].depth, 6);
+        assert.deepEqual(db.reorgs[0].new_hashes, canonical.slice(5, 11).map(block => block.hash));
+    });
+
+    it('leaves the indexed chain untouched when the fork is deeper than the reorg depth', async () => {
+        const shared = branch('a', 0, 5, null);
+        const orphanedBranch = branch('a', 6, 20, shared[5]);
+        const newBranch = branch('b', 6, 21, shared[5]);
+        const db = fakeDatabase([...shared, ...orphanedBranch]);
+        const chain = fakeBlockchain([...shared, ...newBranch], 20);
+
+        const started = await startIndexer(chain.blockchain, db.database);
+        indexer = started.indexer;
+        await chain.announce(21);
+
+        assert.deepEqual(db.calls, []);
+        assert.deepEqual(started.events, []);
+        assert.equal(db.stored.get(20)?.hash, orphanedBranch[14].hash);
+        assert.equal(indexer.getLastProcessedBlock(), 20);
+    });
+});
+
+// Records statements as "<verb> <table>" so the rollback order can be compared
+function fakePool(failOn?: string) {
+    const statements: string[] = [];
+    const params: unknown[][] = [];
+    let released = false;
+    const rows: Record<string, unknown[]> = {
+        'DELETE token_transfers': [{
+            token_address: TOKEN, from_address: SENDER, to_address: RECIPIENT, value: '500', block_number: 9
+        }],
+        'DELETE nft_transfers': [{
+            token_address: TOKEN, token_id: '7', from_address: ethers.constants.AddressZero, to_address: RECIPIENT, amount: '1', block_number: 9
+        }],
+        'DELETE transactions': [{
+            hash: '0x' + 'cd'.repeat(32), block_number: 9, from_address: ethers.utils.getAddress(SENDER),
+            to_address: ethers.utils.getAddress(RECIPIENT), value: '0', gas_price: '10', gas_used: '21000',
+            status: true, created_at: '2026-01-01T00:00:00.000Z'
+        }],
+        'UPDATE address_stats': [{ transaction_count: '0' }],
+        'DELETE blocks': [{ number: 9, hash: '0x' + '09'.repeat(32), timestamp: new Date('2026-01-01T00:00:00Z') }],
+        'SELECT blocks': [{ first: null, last: null }]
+    };
+
+    const client = {
+        query: async (sql: string, values: unknown[] = []) => {
+            const [verb, ...words] = sql.trim().split(/\s+/);
+            const table = verb === 'SELECT'
+                ? words[words.indexOf('FROM') + 1]
+                : words.find(word => word !== 'FROM' && word !== 'INTO');
+            const statement = table ? `${verb} ${table}` : verb;
+            statements.push(statement);
+            params.push(values);
+            if (statement === failOn) {
+                throw new Error('connection lost');
+            }
+            return { rows: rows[statement] ?? [] };
+        },
+        release: () => {
+            released = true;
+        }
+    };
+    return {
+        pool: { connect: async () => client },
+        statements,
+        params,
+        released: () => released
+    };
+}
+
+describe('DatabaseService.deleteBlocksAfter', () => {
+    it('reverts balances and statistics before removing the orphaned rows they came from', async () => {
+        const database = new DatabaseService('postgres://localhost/unused');
+        const fake = fakePool();
+        (database as any).pool = fake.pool;
+
+        const orphaned = await database.deleteBlocksAfter(8);
+
+        assert.deepEqual(orphaned.map(block => block.number), [9]);
+        assert.deepEqual(fake.statements, [
+            'BEGIN',
+            'DELETE token_transfers',
+            'INSERT token_balances',
+            'INSERT token_balances',
+            'DELETE nft_transfers',
+            'INSERT nft_balances',
+            'DELETE contracts',
+            'DELETE contract_proxies',
+            'DELETE proxy_upgrades',
+            'DELETE internal_transactions',
+            'DELETE logs',
+            'DELETE transactions',
+            'UPDATE address_stats',
+            'DELETE address_stats',
+            'UPDATE address_stats',
+            'DELETE address_stats',
+            'UPDATE pending_transactions',
+            'DELETE blocks',
+            'DELETE daily_stats',
+            'DELETE daily_active_addresses',
+            'SELECT blocks',
+            'COMMIT'
+        ]);
+        assert.equal(fake.released(), true);
+
+        // The transfer is undone: the sender gets the tokens back, the recipient loses them
+        const balanceUpdates = fake.params.filter((_, i) => fake.statements[i] === 'INSERT token_balances');
+        assert.deepEqual(balanceUpdates, [[TOKEN, SENDER, '500', 8], [TOKEN, RECIPIENT, '-500', 8]]);
+        const nftUpdates = fake.params.filter((_, i) => fake.statements[i] === 'INSERT nft_balances');
+        assert.deepEqual(nftUpdates, [[TOKEN, '7', RECIPIENT, '-1', 8]]);
+    });
+
+    it('rolls everything back when a statement fails', async () => {
+        const database = new DatabaseService('postgres://localhost/unused');
+        const fake = fakePool('DELETE blocks');
+        (database as any).pool = fake.pool;
+
+        await assert.rejects(database.deleteBlocksAfter(8), /connection lost/);
+
+        assert.equal(fake.statements.at(-1), 'ROLLBACK');
+        assert.equal(fake.statements.includes('COMMIT'), false);
+        assert.equal(fake.released(), true);
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { eventFromSignature, methodName, parseTextSignature, signaturesFromAbi } from '../src/utils/signatures';
+
+const TRANSFER_SELECTOR = '0xa9059cbb';
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+describe('parseTextSignature', () => {
+    it('reads a bare signature as a function', () => {
+        assert.deepEqual(parseTextSignature('transfer(address,uint256)'), {
+            hash: TRANSFER_SELECTOR,
+            signature: 'transfer(address,uint256)',
+            type: 'function'
+        });
+    });
+
+    it('reads events and errors with parameter names and a trailing comment', () => {
+        assert.deepEqual(parseTextSignature('  event Transfer(address indexed from, address indexed to, uint256 value) # ERC-20'), {
+            hash: TRANSFER_TOPIC,
+            signature: 'Transfer(address,address,uint256)',
+            type: 'event'
+        });
+        assert.deepEqual(parseTextSignature('error InsufficientBalance(uint256 available, uint256 required)'), {
+            hash: '0xcf479181',
+            signature: 'InsufficientBalance(uint256,uint256)',
+            type: 'error'
+        });
+    });
+
+    it('skips blank and comment lines', () => {
+        assert.equal(parseTextSignature(''), null);
+        assert.equal(parseTextSignature('   # ERC-20'), null);
+    });
+
+    it('throws on a malformed line', () => {
+        assert.throws(() => parseTextSignature('transfer(address,'));
+    });
+
+    it('refuses anonymous events, which have no topic', () => {
+        assert.throws(() => parseTextSignature('event Log(uint256 value) anonymous'), /Unsupported signature/);
+    });
+});
+
+describe('signaturesFromAbi', () => {
+    it('lists functions, events and errors but not constructors or anonymous events', () => {
+        const abi = JSON.stringify([
+            { type: 'constructor', inputs: [{ name: 'supply', type: 'uint256' }] },
+            { type: 'function', name: 'transfer', stateMutability: 'nonpayable', inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }], outputs: [{ type: 'bool' }] },
+            { type: 'event', name: 'Transfer', anonymous: false, inputs: [
+                { name: 'from', type: 'address', indexed: true },
+                { name: 'to', type: 'address', indexed: true },
+                { name: 'value', type: 'uint256', indexed: false }
+            ] },
+            { type: 'event', name: 'Log', anonymous: true, inputs: [{ name: 'value', type: 'uint256', indexed: false }] },
+            { type: 'error', name: 'Paused', inputs: [] }
+        ]);
+
+        assert.deepEqual(signaturesFromAbi(abi), [
+            { hash: TRANSFER_SELECTOR, signature: 'transfer(address,uint256)', type: 'function' },
+            { hash: TRANSFER_TOPIC, signature: 'Transfer(address,address,uint256)', type: 'event' },
+            { hash: '0x9e87fac8', signature: 'Paused()', type: 'error' }
+        ]);
+    });
+});
+
+describe('eventFromSignature', () => {
+    it('indexes the leading parameters', () => {
+        const fragment = eventFromSignature('Transfer(address,address,uint256)', 2);
+
+        assert.deepEqual(fragment?.inputs.map(input => input.indexed), [true, true, false]);
+        assert.equal(fragment?.anonymous, false);
+    });
+
+    it('returns null when more topics than parameters are indexed', () => {
+        assert.equal(eventFromSignature('Transfer(address,address,uint256)', 4), null);
+    });
+});
+
+describe('methodName', () => {
+    it('drops the parameter list', () => {
+        assert.equal(methodName('transfer(address,uint256)'), 'transfer');
+    });
+});
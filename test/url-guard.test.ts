@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { assertPublicUrl, isPublicAddress, publicOnlyLookup } from '../src/utils/url-guard';
+
+describe('isPublicAddress', () => {
+    const cases: [string, boolean][] = [
+        ['8.8.8.8', true],
+        ['104.16.0.1', true],
+        ['2606:4700::1111', true],
+        ['127.0.0.1', false],
+        ['10.1.2.3', false],
+        ['172.20.0.1', false],
+        ['192.168.1.1', false],
+        ['169.254.169.254', false],
+        ['100.64.0.1', false],
+        ['0.0.0.0', false],
+        ['::1', false],
+        ['::', false],
+        ['fd00::1', false],
+        ['fe80::1', false],
+        ['::ffff:127.0.0.1', false],
+        ['::ffff:7f00:1', false],
+        ['not an address', false]
+    ];
+    for (const [address, expected] of cases) {
+        it(`${address} is ${expected ? '' : 'not '}public`, () => {
+            assert.equal(isPublicAddress(address), expected);
+        });
+    }
+});
+
+describe('assertPublicUrl', () => {
+    it('accepts http(s) URLs naming hosts', () => {
+        assert.equal(assertPublicUrl('https://example.com/1.json').host, 'example.com');
+    });
+
+    it('refuses other schemes and private address literals', () => {
+        assert.throws(() => assertPublicUrl('file:///etc/passwd'), /Unsupported URL scheme: file/);
+        assert.throws(() => assertPublicUrl('http://169.254.169.254/latest/meta-data'), /non-public address/);
+        assert.throws(() => assertPublicUrl('http://[::1]:8545/'), /non-public address/);
+    });
+});
+
+describe('publicOnlyLookup', () => {
+    it('stops connections to hosts resolving to loopback', async () => {
+        const server = http.createServer((req, res) => res.end('{}'));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const port = (server.address() as { port: number }).port;
+        try {
+            const agent = new http.Agent({ lookup: publicOnlyLookup });
+            const error = await new Promise<Error>(resolve => {
+                http.get({ host: 'localhost', port, agent }, () => resolve(new Error('connected'))).on('error', resolve);
+            });
+            assert.match(error.message, /non-public address/);
+        } finally {
+            server.close();
+        }
+    });
+});